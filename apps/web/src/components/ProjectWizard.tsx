@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
-import { X, Upload, Check, ChevronRight, ChevronLeft, RefreshCw, Download, FileText } from 'lucide-react';
+import { X, Upload, Check, ChevronRight, ChevronLeft, RefreshCw, Download, FileText, Search, AlertTriangle } from 'lucide-react';
+import { api } from '../services/apiClient';
+import { SitemapCandidate, SitemapDiscoveryResult } from '../types';
 
 interface ProjectWizardProps {
   onCancel: () => void;
@@ -16,9 +18,39 @@ const ProjectWizard: React.FC<ProjectWizardProps> = ({ onCancel, onSubmit }) =>
     indexNowKey: ''
   });
 
-  const handleNext = () => setStep(step + 1);
+  const [candidates, setCandidates] = useState<SitemapCandidate[] | null>(null);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+
+  const handleNext = () => {
+    // Entering the sitemap step with just a domain: look for sitemaps first
+    if (step === 1 && formData.domain && !formData.sitemapUrl && candidates === null) {
+      runDiscovery();
+    }
+    setStep(step + 1);
+  };
   const handleBack = () => setStep(step - 1);
 
+  // 🔎 AUTO-DISCOVER SITEMAPS (robots.txt + common paths)
+  const runDiscovery = async () => {
+    if (!formData.domain) return;
+    setIsDiscovering(true);
+    try {
+      const { candidates: found } = await api.query(
+        'projects.discoverSitemaps',
+        { domain: formData.domain }
+      ) as SitemapDiscoveryResult;
+      setCandidates(found);
+      const first = found.find(c => c.valid);
+      if (first) {
+        setFormData(prev => prev.sitemapUrl ? prev : { ...prev, sitemapUrl: first.url });
+      }
+    } catch {
+      setCandidates([]);
+    } finally {
+      setIsDiscovering(false);
+    }
+  };
+
   // 🛡️ AUTO-GENERATE VALID KEY
   const generateIndexNowKey = () => {
     // Generate 32 char random hex string
@@ -103,7 +135,16 @@ const ProjectWizard: React.FC<ProjectWizardProps> = ({ onCancel, onSubmit }) =>
           {step === 2 && (
             <div className="space-y-6 animate-fade-in">
                <div className="space-y-2">
-                <label className="text-sm font-medium text-zinc-300">Sitemap Index URL</label>
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-medium text-zinc-300">Sitemap Index URL</label>
+                  <button 
+                    onClick={runDiscovery}
+                    disabled={!formData.domain || isDiscovering}
+                    className="text-xs flex items-center gap-1 text-brand-400 hover:text-brand-300 disabled:text-zinc-600 transition-colors"
+                  >
+                    {isDiscovering ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Search className="w-3 h-3" />} Auto-detect
+                  </button>
+                </div>
                 <input 
                   type="text" 
                   className="w-full bg-zinc-900/50 border border-zinc-700 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-brand-500/50 focus:border-brand-500 outline-none transition-all placeholder-zinc-600 font-mono text-sm"
@@ -115,6 +156,46 @@ const ProjectWizard: React.FC<ProjectWizardProps> = ({ onCancel, onSubmit }) =>
                   <Check className="w-3 h-3" /> System will recursively parse all child sitemaps found in the index.
                 </p>
               </div>
+
+              {/* DISCOVERED SITEMAPS */}
+              {isDiscovering && (
+                <div className="text-xs text-zinc-500 flex items-center gap-2">
+                  <RefreshCw className="w-3 h-3 animate-spin" /> Checking robots.txt and common sitemap locations...
+                </div>
+              )}
+              {!isDiscovering && candidates !== null && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-zinc-300">Discovered Sitemaps</label>
+                  {candidates.length === 0 ? (
+                    <p className="text-xs text-zinc-500">No sitemaps found for {formData.domain}. Enter the URL manually.</p>
+                  ) : (
+                    <div className="space-y-1.5">
+                      {candidates.map(candidate => (
+                        <button
+                          key={candidate.url}
+                          onClick={() => candidate.valid && setFormData({...formData, sitemapUrl: candidate.url})}
+                          disabled={!candidate.valid}
+                          className={`w-full text-left px-3 py-2 rounded-lg border text-xs font-mono flex items-center gap-2 transition-colors ${
+                            formData.sitemapUrl === candidate.url
+                              ? 'border-brand-500 bg-brand-500/10 text-white'
+                              : 'border-zinc-800 bg-zinc-900/50 text-zinc-300 hover:border-zinc-600 disabled:hover:border-zinc-800'
+                          }`}
+                        >
+                          {candidate.valid
+                            ? <Check className="w-3 h-3 shrink-0 text-emerald-400" />
+                            : <AlertTriangle className="w-3 h-3 shrink-0 text-amber-400" />}
+                          <span className="truncate flex-1">{candidate.url}</span>
+                          <span className="text-[10px] text-zinc-500 shrink-0">
+                            {candidate.valid
+                              ? `${candidate.type} · ${candidate.source === 'ROBOTS_TXT' ? 'robots.txt' : 'common path'}`
+                              : candidate.error}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
@@ -0,0 +1,11 @@
+import { createTRPCUntypedClient, httpBatchLink } from "@trpc/client";
+
+// 🔌 API CLIENT
+// tRPC client for the backend API. Anything that has to reach other sites
+// (robots.txt, sitemaps) goes through the API rather than browser proxies.
+
+export const api = createTRPCUntypedClient({
+  links: [
+    httpBatchLink({ url: import.meta.env.VITE_API_URL ?? '/api/trpc' })
+  ]
+});
@@ -48,4 +48,21 @@ export interface ChartDataPoint {
   name: string;
   value: number;
   secondary?: number;
+}
+
+// Response of projects.discoverSitemaps
+export interface SitemapCandidate {
+  url: string;
+  source: 'ROBOTS_TXT' | 'WELL_KNOWN';
+  status: number | null;
+  type?: 'INDEX' | 'URLSET' | 'RSS' | 'ATOM' | 'TEXT';
+  valid: boolean;
+  error?: string;
+  checkedAt: string;
+}
+
+export interface SitemapDiscoveryResult {
+  origin: string;
+  robotsTxtFound: boolean;
+  candidates: SitemapCandidate[];
 }
\ No newline at end of file
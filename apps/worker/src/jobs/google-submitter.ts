@@ -1,14 +1,16 @@
 import { Job, Worker } from 'bullmq';
-import { google } from 'googleapis';
-import pLimit from 'p-limit';
-import pRetry from 'p-retry';
+import pRetry, { AbortError } from 'p-retry';
 import { db } from '@repo/db';
-import { urls, submissions, credentials, quotaUsage, projects } from '@repo/db/schema';
-import { eq, and, sql, inArray } from 'drizzle-orm';
+import { urls, submissions, credentials, quotaUsage, projects, ProjectSettings } from '@repo/db/schema';
+import { eq, sql, inArray } from 'drizzle-orm';
 import { logger } from '../lib/logger';
 import { redis } from '../lib/redis';
 import { metrics } from '../lib/metrics';
-import { decryptCredentials } from '../lib/encryption';
+import { loadGoogleCredentialPool, CredentialPool, PooledCredential } from '../lib/credential-pool';
+import { quotaDay } from '../lib/quota';
+import { sendIndexingBatch, BatchRequestPart, BatchResponsePart, MAX_BATCH_SIZE } from '../lib/google-batch';
+import { checkEligibility, recordSkippedSubmissions, countByReason, EligibilityResult } from '../lib/eligibility';
+import { syncNotificationHistory } from '../lib/notification-history';
 
 // ============ TYPES ============
 interface GoogleSubmitterPayload {
@@ -16,6 +18,7 @@ interface GoogleSubmitterPayload {
   jobId: string;
   urlIds: string[];
   action: 'URL_UPDATED' | 'URL_DELETED';
+  force?: boolean; // Resubmit URLs even if recently submitted or unchanged since then
 }
 
 interface SubmissionResult {
@@ -27,10 +30,7 @@ interface SubmissionResult {
 
 // ============ CONFIGURATION ============
 const CONFIG = {
-  DAILY_QUOTA: 200, // Google's default quota
-  BATCH_SIZE: 100, // Max URLs per batch request
-  CONCURRENT_REQUESTS: 5,
-  RATE_LIMIT_DELAY_MS: 1000,
+  RATE_LIMIT_DELAY_MS: 1000, // Between batch requests
   MAX_RETRIES: 3,
 };
 
@@ -38,103 +38,75 @@ const CONFIG = {
 export const googleSubmitterWorker = new Worker<GoogleSubmitterPayload>(
   'google-submitter',
   async (job: Job<GoogleSubmitterPayload>) => {
-    const { projectId, jobId, urlIds, action } = job.data;
+    const { projectId, jobId, urlIds, action, force = false } = job.data;
     const startTime = Date.now();
     
     logger.info({ jobId, projectId, urlCount: urlIds.length, action }, 'Starting Google submission');
     
     try {
-      // Get project credentials
-      const [credential] = await db
-        .select()
-        .from(credentials)
-        .where(
-          and(
-            eq(credentials.projectId, projectId),
-            eq(credentials.engine, 'GOOGLE')
-          )
-        )
+      const [project] = await db
+        .select({ settings: projects.settings })
+        .from(projects)
+        .where(eq(projects.id, projectId))
         .limit(1);
       
-      if (!credential) {
-        throw new Error('Google credentials not configured for this project');
-      }
-      
-      // Decrypt service account JSON
-      const serviceAccountJson = decryptCredentials(
-        credential.encryptedData,
-        credential.iv,
-        credential.authTag
-      );
-      const serviceAccount = JSON.parse(serviceAccountJson);
-      
-      // Create authenticated client
-      const auth = new google.auth.GoogleAuth({
-        credentials: serviceAccount,
-        scopes: ['https://www.googleapis.com/auth/indexing'],
-      });
-      
-      const indexing = google.indexing({ version: 'v3', auth });
-      
-      // Check quota
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      const [quota] = await db
-        .select()
-        .from(quotaUsage)
-        .where(
-          and(
-            eq(quotaUsage.projectId, projectId),
-            eq(quotaUsage.engine, 'GOOGLE'),
-            eq(quotaUsage.date, today)
-          )
-        )
-        .limit(1);
+      // Every Google credential of the project, with its own quota
+      const today = quotaDay('GOOGLE');
       
-      const currentUsage = quota?.used ?? 0;
-      const remainingQuota = CONFIG.DAILY_QUOTA - currentUsage;
+      const pool = await loadGoogleCredentialPool(projectId, today, project?.settings?.googleCredentialSelection);
+      const remainingQuota = pool.remaining;
       
       if (remainingQuota <= 0) {
-        throw new Error('Daily Google Indexing API quota exhausted');
+        throw new Error('Daily Google Indexing API quota exhausted for every credential');
+      }
+      
+      // Only URL_UPDATED is gated: deletions are always sent, since a URL that
+      // is now excluded, broken or removed may still be in Google's index
+      let eligible: { id: string; loc: string }[];
+      let skippedCount = 0;
+      if (action === 'URL_UPDATED') {
+        let eligibility = await checkEligibility('GOOGLE', urlIds, { settings: project?.settings, force });
+        if (project?.settings?.checkNotificationHistory && !force && eligibility.eligible.length > 0) {
+          eligibility = await applyNotificationHistory(pool, eligibility, project.settings);
+        }
+        await recordSkippedSubmissions(projectId, 'GOOGLE', action, eligibility.skipped);
+        eligible = eligibility.eligible;
+        skippedCount = eligibility.skipped.length;
+        
+        if (skippedCount > 0) {
+          logger.info({
+            jobId,
+            skippedCount,
+            reasons: Object.fromEntries(countByReason(eligibility.skipped)),
+          }, 'Skipped ineligible URLs');
+        }
+      } else {
+        eligible = await db
+          .select({ id: urls.id, loc: urls.loc })
+          .from(urls)
+          .where(inArray(urls.id, urlIds));
       }
       
       // Limit URLs to remaining quota
-      const urlsToSubmit = urlIds.slice(0, remainingQuota);
+      const urlRecords = eligible.slice(0, remainingQuota);
       
-      if (urlsToSubmit.length < urlIds.length) {
+      if (urlRecords.length < eligible.length) {
         logger.warn({
-          requested: urlIds.length,
-          submitting: urlsToSubmit.length,
+          requested: eligible.length,
+          submitting: urlRecords.length,
           reason: 'quota_limit',
         }, 'Truncated submission due to quota');
       }
       
-      // Get URL records
-      const urlRecords = await db
-        .select({ id: urls.id, loc: urls.loc })
-        .from(urls)
-        .where(inArray(urls.id, urlsToSubmit));
-      
-      // Submit URLs with rate limiting
-      const limiter = pLimit(CONFIG.CONCURRENT_REQUESTS);
-      const results: SubmissionResult[] = [];
-      
-      for (const urlRecord of urlRecords) {
-        const result = await limiter(async () => {
-          return submitSingleUrl(indexing, urlRecord, action);
-        });
-        
-        results.push(result);
-        
-        // Update progress
-        const progress = Math.round((results.length / urlRecords.length) * 100);
-        await job.updateProgress(progress);
-        
-        // Rate limit delay
-        await new Promise(r => setTimeout(r, CONFIG.RATE_LIMIT_DELAY_MS / CONFIG.CONCURRENT_REQUESTS));
+      if (urlRecords.length === 0) {
+        return { successCount: 0, failCount: 0, skippedCount, duration: Date.now() - startTime };
       }
       
+      // Submit URLs in batch requests
+      const results = await submitInBatches(pool, urlRecords, action, async (done) => {
+        await job.updateProgress(Math.round((done / urlRecords.length) * 100));
+      });
+      
       // Record submissions in database
       const successCount = results.filter(r => r.success).length;
       const failCount = results.filter(r => !r.success).length;
@@ -165,22 +137,36 @@ export const googleSubmitterWorker = new Worker<GoogleSubmitterPayload>(
           .where(inArray(urls.id, successfulIds));
       }
       
-      // Update quota usage
-      await db
-        .insert(quotaUsage)
-        .values({
-          projectId,
-          engine: 'GOOGLE',
-          date: today,
-          used: successCount,
-          limit: CONFIG.DAILY_QUOTA,
-        })
-        .onConflictDoUpdate({
-          target: [quotaUsage.projectId, quotaUsage.engine, quotaUsage.date],
-          set: {
-            used: sql`${quotaUsage.used} + ${successCount}`,
-          },
-        });
+      // Update quota usage per credential; failed calls that reached Google
+      // count too, as they do on the shared service account row
+      const usedCredentials = pool.members.filter(credential => credential.sent > 0);
+      for (const credential of usedCredentials) {
+        await db
+          .insert(quotaUsage)
+          .values({
+            projectId,
+            engine: 'GOOGLE',
+            api: 'INDEXING',
+            credentialId: credential.id,
+            date: today,
+            used: credential.sent,
+            limit: credential.dailyQuota,
+          })
+          .onConflictDoUpdate({
+            target: [quotaUsage.projectId, quotaUsage.engine, quotaUsage.api, quotaUsage.credentialId, quotaUsage.date],
+            set: {
+              used: sql`${quotaUsage.used} + ${credential.sent}`,
+              limit: credential.dailyQuota,
+            },
+          });
+      }
+      
+      if (usedCredentials.length > 0) {
+        await db
+          .update(credentials)
+          .set({ lastUsedAt: new Date() })
+          .where(inArray(credentials.id, usedCredentials.map(credential => credential.id)));
+      }
       
       // Metrics
       const duration = Date.now() - startTime;
@@ -192,10 +178,12 @@ export const googleSubmitterWorker = new Worker<GoogleSubmitterPayload>(
         jobId,
         successCount,
         failCount,
+        skippedCount,
+        byCredential: Object.fromEntries(usedCredentials.map(credential => [credential.label, credential.submitted])),
         duration,
       }, 'Google submission completed');
       
-      return { successCount, failCount, duration };
+      return { successCount, failCount, skippedCount, duration };
       
     } catch (error) {
       logger.error({ jobId, projectId, error }, 'Google submission failed');
@@ -212,57 +200,209 @@ export const googleSubmitterWorker = new Worker<GoogleSubmitterPayload>(
   }
 );
 
-// ============ SINGLE URL SUBMISSION ============
-async function submitSingleUrl(
-  indexing: any,
-  urlRecord: { id: string; loc: string },
+// ============ NOTIFICATION HISTORY ============
+// Another tool may have notified Google since our last submission. The
+// history is stored and eligibility checked again for the URLs that passed,
+// so those notified recently or unchanged since are skipped like our own.
+// Only as many URLs as today's quota can send are looked up; those the
+// history rules out make room for the next ones. Without the history the
+// submission goes ahead as before.
+async function applyNotificationHistory(
+  pool: CredentialPool,
+  eligibility: EligibilityResult,
+  settings: ProjectSettings
+): Promise<EligibilityResult> {
+  const account = pool.pick();
+  if (!account) return eligibility;
+  
+  const eligible: { id: string; loc: string }[] = [];
+  const skipped = [...eligibility.skipped];
+  let checked = 0;
+  
+  while (checked < eligibility.eligible.length && eligible.length < pool.remaining) {
+    const chunk = eligibility.eligible.slice(checked, checked + pool.remaining - eligible.length);
+    try {
+      const counts = await syncNotificationHistory(account, chunk);
+      logger.info({ credential: account.label, ...counts }, 'Checked notification history');
+    } catch (error) {
+      logger.warn({ credential: account.label, error }, 'Could not read notification history');
+      break;
+    }
+    
+    checked += chunk.length;
+    const recheck = await checkEligibility('GOOGLE', chunk.map(url => url.id), { settings });
+    eligible.push(...recheck.eligible);
+    skipped.push(...recheck.skipped);
+  }
+  
+  return {
+    eligible: [...eligible, ...eligibility.eligible.slice(checked)],
+    skipped,
+  };
+}
+
+// ============ BATCH SUBMISSION ============
+interface PendingUrl {
+  record: { id: string; loc: string };
+  tried: Set<string>; // Credentials that answered 403 or 429 for it
+  attempts: number; // Server errors so far
+  last?: SubmissionResult;
+}
+
+// Up to MAX_BATCH_SIZE URLs go out per HTTP request, all under one credential
+// and reserved from its quota beforehand. Each part succeeds or fails on its
+// own: a 403 or 429 sends the URL back to the queue for another credential, a
+// server error for another attempt, and anything else is final. URLs left when
+// every credential is spent are not sent at all.
+async function submitInBatches(
+  pool: CredentialPool,
+  urlRecords: { id: string; loc: string }[],
+  action: 'URL_UPDATED' | 'URL_DELETED',
+  onProgress: (done: number) => Promise<void>
+): Promise<SubmissionResult[]> {
+  const queue: PendingUrl[] = urlRecords.map(record => ({ record, tried: new Set(), attempts: 0 }));
+  const results: SubmissionResult[] = [];
+  let unsent = 0;
+  
+  while (queue.length > 0) {
+    const reservation = await pool.acquire(Math.min(MAX_BATCH_SIZE, queue.length), queue[0].tried);
+    if (!reservation) {
+      // No credential left with quota that has not already refused this URL
+      const { last } = queue.shift()!;
+      if (last) {
+        results.push(last);
+      } else {
+        unsent++;
+      }
+      continue;
+    }
+    
+    const { credential } = reservation;
+    const batch: PendingUrl[] = [];
+    for (let i = 0; i < queue.length && batch.length < reservation.count; ) {
+      if (queue[i].tried.has(credential.id)) {
+        i++;
+      } else {
+        batch.push(...queue.splice(i, 1));
+      }
+    }
+    
+    let responses: BatchResponsePart[] = [];
+    let sent = 0;
+    try {
+      ({ responses, sent } = await sendBatch(credential, batch.map(item => item.record), action));
+    } finally {
+      // Parts that reached Google count against the quota whatever their
+      // answer; the rest of the reservation is handed back
+      await pool.settle(reservation, sent);
+    }
+    
+    batch.forEach((item, index) => {
+      const response = responses[index];
+      const result: SubmissionResult = {
+        urlId: item.record.id,
+        success: response.error === null,
+        responseCode: response.status || undefined,
+        error: response.error ?? undefined,
+      };
+      
+      if (result.success) {
+        pool.reportSuccess(credential);
+        results.push(result);
+        return;
+      }
+      
+      pool.reportFailure(credential, response.status);
+      item.last = result;
+      
+      if (response.status === 403 || response.status === 429) {
+        item.tried.add(credential.id);
+        queue.push(item);
+      } else if ((response.status === 0 || response.status >= 500) && item.attempts < CONFIG.MAX_RETRIES) {
+        item.attempts++;
+        queue.push(item);
+      } else {
+        results.push(result);
+      }
+    });
+    
+    const failedOver = batch.filter(item => item.tried.has(credential.id)).length;
+    if (failedOver > 0) {
+      logger.warn({
+        credential: credential.label,
+        urlCount: failedOver,
+        responseCode: responses.find(response => response.status === 403 || response.status === 429)?.status,
+      }, 'Failing over to the next Google credential');
+    }
+    
+    await onProgress(results.length);
+    
+    if (queue.length > 0) {
+      await new Promise(r => setTimeout(r, CONFIG.RATE_LIMIT_DELAY_MS));
+    }
+  }
+  
+  if (unsent > 0) {
+    logger.warn({ unsent, reason: 'quota_limit' }, 'Quota ran out before every URL was sent');
+  }
+  
+  return results;
+}
+
+// A failure of the whole request counts as that failure for every URL in it,
+// so an account Google refuses (401/403) or throttles (429) is failed over too.
+// `sent` counts only the parts Google answered in a multipart response: when
+// the request itself failed, none of its calls reached the Indexing API.
+async function sendBatch(
+  credential: PooledCredential,
+  records: { id: string; loc: string }[],
   action: 'URL_UPDATED' | 'URL_DELETED'
-): Promise<SubmissionResult> {
+): Promise<{ responses: BatchResponsePart[]; sent: number }> {
+  const parts: BatchRequestPart[] = records.map(record => ({
+    method: 'POST',
+    path: '/v3/urlNotifications:publish',
+    body: { url: record.loc, type: action },
+  }));
+  
   try {
-    const response = await pRetry(
+    const responses = await pRetry(
       async () => {
-        const res = await indexing.urlNotifications.publish({
-          requestBody: {
-            url: urlRecord.loc,
-            type: action,
-          },
-        });
-        return res;
+        try {
+          return await sendIndexingBatch(credential.auth, parts);
+        } catch (error: any) {
+          const statusCode = error.response?.status ?? error.code;
+          if (typeof statusCode === 'number' && statusCode < 500) {
+            throw new AbortError(error);
+          }
+          throw error;
+        }
       },
       {
         retries: CONFIG.MAX_RETRIES,
         onFailedAttempt: (error) => {
           logger.warn({
-            url: urlRecord.loc,
+            credential: credential.label,
+            urlCount: records.length,
             attempt: error.attemptNumber,
             error: error.message,
-          }, 'Google API retry');
+          }, 'Google batch request retry');
         },
       }
     );
     
-    return {
-      urlId: urlRecord.id,
-      success: true,
-      responseCode: response.status,
-    };
+    return { responses, sent: responses.filter(response => response.status !== 0).length };
     
   } catch (error: any) {
     const statusCode = error.response?.status ?? error.code;
+    const status = statusCode === 401 ? 403 : typeof statusCode === 'number' ? statusCode : 0;
     
-    // Handle specific error codes
-    if (statusCode === 429) {
-      logger.warn({ url: urlRecord.loc }, 'Rate limited by Google');
-    } else if (statusCode === 403) {
-      logger.error({ url: urlRecord.loc }, 'Permission denied - check Search Console verification');
+    if (status === 403) {
+      logger.error({ credential: credential.label }, 'Permission denied - check Search Console verification');
+    } else if (status === 429) {
+      logger.warn({ credential: credential.label }, 'Rate limited by Google');
     }
     
-    return {
-      urlId: urlRecord.id,
-      success: false,
-      responseCode: statusCode,
-      error: error.message,
-    };
+    return { responses: records.map(() => ({ status, body: null, error: error.message })), sent: 0 };
   }
 }
 
@@ -0,0 +1,286 @@
+import { Job, Worker } from 'bullmq';
+import { google, searchconsole_v1 } from 'googleapis';
+import pLimit from 'p-limit';
+import pRetry, { AbortError } from 'p-retry';
+import { db } from '@repo/db';
+import { projects, sitemaps, sitemapSources, jobs, credentials } from '@repo/db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { logger } from '../lib/logger';
+import { redis } from '../lib/redis';
+import { metrics } from '../lib/metrics';
+import { getGoogleAuth, GOOGLE_SCOPES } from '../lib/google-auth';
+import { searchConsoleProperty } from '../lib/search-console';
+import { incrementJobCounters, appendJobMetadataItems } from '../lib/job-metadata';
+import { gscSitemapSyncQueue } from '../lib/queues';
+
+// ============ TYPES ============
+interface GscSitemapSyncPayload {
+  projectId?: string; // Omitted for the periodic sweep over all active projects
+  jobId?: string; // GSC_SITEMAP_SYNC jobs row, when triggered by a user
+  submit?: boolean; // Submit every sitemap before reading its status; the sweep only reads
+}
+
+type WmxSitemap = searchconsole_v1.Schema$WmxSitemap;
+
+// ============ CONFIGURATION ============
+const CONFIG = {
+  SWEEP_CRON: '30 4 * * *',
+  CONCURRENCY: 3,
+  MAX_RETRIES: 3,
+};
+
+// ============ WORKER ============
+// Submits the project's sitemaps (roots and children) to Search Console and
+// stores what Search Console reports about each one next to our scan results.
+export const gscSitemapSyncWorker = new Worker<GscSitemapSyncPayload>(
+  'gsc-sitemap-sync',
+  async (job: Job<GscSitemapSyncPayload>) => {
+    const { projectId, jobId, submit = false } = job.data;
+    
+    if (!projectId) {
+      return await fanOutSweep();
+    }
+    
+    const startTime = Date.now();
+    
+    try {
+      if (jobId) {
+        await db
+          .update(jobs)
+          .set({ status: 'PROCESSING', startedAt: new Date() })
+          .where(eq(jobs.id, jobId));
+      }
+      
+      const [project] = await db
+        .select({ domain: projects.domain, settings: projects.settings })
+        .from(projects)
+        .where(eq(projects.id, projectId))
+        .limit(1);
+      
+      if (!project) {
+        throw new Error(`Project ${projectId} not found`);
+      }
+      
+      const siteUrl = searchConsoleProperty(project.domain, project.settings);
+      const auth = await getGoogleAuth(projectId, [
+        submit ? GOOGLE_SCOPES.SEARCH_CONSOLE_WRITE : GOOGLE_SCOPES.SEARCH_CONSOLE,
+      ]);
+      const searchconsole = google.searchconsole({ version: 'v1', auth });
+      
+      // Only sitemaps reached from an enabled root: those of a removed root
+      // (source_id NULL) or a disabled one are no longer ours to submit
+      const targets = await db
+        .select({ id: sitemaps.id, url: sitemaps.url })
+        .from(sitemaps)
+        .innerJoin(
+          sitemapSources,
+          and(
+            eq(sitemapSources.id, sitemaps.sourceId),
+            eq(sitemapSources.isEnabled, true)
+          )
+        )
+        .where(eq(sitemaps.projectId, projectId))
+        .orderBy(asc(sitemaps.createdAt));
+      
+      logger.info({ jobId, projectId, siteUrl, submit, sitemapCount: targets.length }, 'Starting Search Console sitemap sync');
+      
+      const counts: Record<string, number> = { sitemapsSubmitted: 0, sitemapsChecked: 0, sitemapsWithErrors: 0 };
+      const errors: Record<string, unknown>[] = [];
+      let processed = 0;
+      let stopReason: string | null = null;
+      const limiter = pLimit(CONFIG.CONCURRENCY);
+      
+      await Promise.all(
+        targets.map(target => limiter(async () => {
+          if (stopReason) return;
+          
+          let step = 'status';
+          try {
+            if (submit) {
+              step = 'submit';
+              await callApi(target.url, () => searchconsole.sitemaps.submit({ siteUrl, feedpath: target.url }));
+              counts.sitemapsSubmitted++;
+              step = 'status';
+            }
+            
+            const report = await readSitemap(searchconsole, siteUrl, target.url);
+            await recordReport(target.id, report);
+            
+            counts.sitemapsChecked++;
+            if (Number(report?.errors ?? 0) > 0) counts.sitemapsWithErrors++;
+          } catch (error: any) {
+            const statusCode = error.response?.status ?? error.code;
+            counts.sitemapsFailed = (counts.sitemapsFailed ?? 0) + 1;
+            errors.push({ url: target.url, step, status: statusCode ?? null, error: error.message });
+            
+            if (statusCode === 401 || statusCode === 403) {
+              // Reading needs any permission on the property, submitting needs Owner
+              stopReason = step === 'submit'
+                ? `Submitting sitemaps needs Owner permission on Search Console property ${siteUrl}`
+                : `No access to Search Console property ${siteUrl}`;
+            } else if (statusCode === 429) {
+              stopReason = 'Search Console API quota exhausted';
+            } else {
+              await db
+                .update(sitemaps)
+                .set({ gscErrorMessage: error.message, gscCheckedAt: new Date() })
+                .where(eq(sitemaps.id, target.id));
+            }
+          }
+          
+          processed++;
+          if (processed % 20 === 0) {
+            await job.updateProgress(Math.round((processed / targets.length) * 100));
+          }
+        }))
+      );
+      
+      metrics.counter('gsc_sitemaps_checked_total', counts.sitemapsChecked);
+      
+      if (stopReason && counts.sitemapsChecked === 0) {
+        throw new Error(stopReason);
+      }
+      
+      if (jobId) {
+        await incrementJobCounters(jobId, counts);
+        await appendJobMetadataItems(jobId, 'sitemapErrors', errors);
+        await db
+          .update(jobs)
+          .set({
+            status: 'COMPLETED',
+            completedAt: new Date(),
+            progress: 100,
+            totalItems: targets.length,
+            processedItems: counts.sitemapsChecked,
+            errorMessage: stopReason,
+          })
+          .where(eq(jobs.id, jobId));
+      }
+      
+      const duration = Date.now() - startTime;
+      metrics.histogram('job_duration_ms', duration, { type: 'GSC_SITEMAP_SYNC' });
+      logger.info({ jobId, projectId, ...counts, stopReason, duration }, 'Search Console sitemap sync completed');
+      
+      return { ...counts, stopReason, duration };
+      
+    } catch (error) {
+      logger.error({ jobId, projectId, error }, 'Search Console sitemap sync failed');
+      
+      if (jobId) {
+        await db
+          .update(jobs)
+          .set({
+            status: 'FAILED',
+            completedAt: new Date(),
+            errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          })
+          .where(eq(jobs.id, jobId));
+      }
+      throw error;
+    }
+  },
+  {
+    connection: redis,
+    concurrency: 2,
+  }
+);
+
+// ============ SITEMAPS API ============
+// null when Search Console does not know the sitemap (never submitted)
+async function readSitemap(
+  searchconsole: searchconsole_v1.Searchconsole,
+  siteUrl: string,
+  feedpath: string
+): Promise<WmxSitemap | null> {
+  try {
+    const response = await callApi(feedpath, () => searchconsole.sitemaps.get({ siteUrl, feedpath }));
+    return response.data;
+  } catch (error: any) {
+    if ((error.response?.status ?? error.code) === 404) return null;
+    throw error;
+  }
+}
+
+async function callApi<T>(feedpath: string, request: () => Promise<T>): Promise<T> {
+  return pRetry(
+    async () => {
+      try {
+        return await request();
+      } catch (error: any) {
+        // Only server errors are worth retrying
+        const statusCode = error.response?.status ?? error.code;
+        if (typeof statusCode === 'number' && statusCode < 500) {
+          throw new AbortError(error);
+        }
+        throw error;
+      }
+    },
+    {
+      retries: CONFIG.MAX_RETRIES,
+      onFailedAttempt: (error) => {
+        logger.warn({
+          sitemap: feedpath,
+          attempt: error.attemptNumber,
+          error: error.message,
+        }, 'Search Console Sitemaps API retry');
+      },
+    }
+  );
+}
+
+// Counts come back as int64 strings; contents has one entry per content type
+// (web, image, video, ...)
+async function recordReport(sitemapId: string, report: WmxSitemap | null): Promise<void> {
+  const contents = report?.contents ?? [];
+  
+  await db
+    .update(sitemaps)
+    .set({
+      gscLastSubmittedAt: report?.lastSubmitted ? new Date(report.lastSubmitted) : null,
+      gscLastDownloadedAt: report?.lastDownloaded ? new Date(report.lastDownloaded) : null,
+      gscIsPending: report?.isPending ?? null,
+      gscWarnings: report ? Number(report.warnings ?? 0) : null,
+      gscErrors: report ? Number(report.errors ?? 0) : null,
+      gscSubmittedUrls: report ? contents.reduce((sum, c) => sum + Number(c.submitted ?? 0), 0) : null,
+      gscIndexedUrls: report ? contents.reduce((sum, c) => sum + Number(c.indexed ?? 0), 0) : null,
+      gscCheckedAt: new Date(),
+      gscErrorMessage: null,
+    })
+    .where(eq(sitemaps.id, sitemapId));
+}
+
+// ============ PERIODIC SWEEP ============
+// Refreshes Search Console's report for projects with a Google service
+// account; submitting is left to the user
+async function fanOutSweep() {
+  const activeProjects = await db
+    .selectDistinct({ id: projects.id })
+    .from(projects)
+    .innerJoin(
+      credentials,
+      and(
+        eq(credentials.projectId, projects.id),
+        eq(credentials.engine, 'GOOGLE')
+      )
+    )
+    .where(eq(projects.isActive, true));
+  
+  await gscSitemapSyncQueue.addBulk(
+    activeProjects.map(project => ({
+      name: 'refresh',
+      data: { projectId: project.id },
+      opts: { attempts: 2, removeOnComplete: true, removeOnFail: 100 },
+    }))
+  );
+  
+  logger.info({ projectCount: activeProjects.length }, 'Queued Search Console sitemap refreshes');
+  
+  return { projectCount: activeProjects.length };
+}
+
+// Repeatable jobs are keyed by name and pattern, so every replica can register it
+gscSitemapSyncQueue
+  .add('sweep', {}, { repeat: { pattern: CONFIG.SWEEP_CRON }, removeOnComplete: true })
+  .catch(error => logger.error({ error }, 'Failed to schedule Search Console sitemap refreshes'));
+
+export default gscSitemapSyncWorker;
@@ -7,12 +7,15 @@ import { eq, and, sql, inArray } from 'drizzle-orm';
 import { logger } from '../lib/logger';
 import { redis } from '../lib/redis';
 import { metrics } from '../lib/metrics';
+import { quotaDay } from '../lib/quota';
+import { checkEligibility, recordSkippedSubmissions, countByReason } from '../lib/eligibility';
 
 // ============ TYPES ============
 interface IndexNowPayload {
   projectId: string;
   jobId: string;
   urlIds: string[];
+  force?: boolean; // Resubmit URLs even if recently submitted or unchanged since then
 }
 
 interface IndexNowConfig {
@@ -43,7 +46,7 @@ const CONFIG = {
 export const indexNowSubmitterWorker = new Worker<IndexNowPayload>(
   'indexnow-submitter',
   async (job: Job<IndexNowPayload>) => {
-    const { projectId, jobId, urlIds } = job.data;
+    const { projectId, jobId, urlIds, force = false } = job.data;
     const startTime = Date.now();
     
     logger.info({ jobId, projectId, urlCount: urlIds.length }, 'Starting IndexNow submission');
@@ -54,6 +57,7 @@ export const indexNowSubmitterWorker = new Worker<IndexNowPayload>(
         .select({
           id: projects.id,
           domain: projects.domain,
+          settings: projects.settings,
         })
         .from(projects)
         .where(eq(projects.id, projectId))
@@ -88,13 +92,26 @@ export const indexNowSubmitterWorker = new Worker<IndexNowPayload>(
         keyLocation: `https://${project.domain}/${indexNowKey}.txt`,
       };
       
-      // Get URL records
-      const urlRecords = await db
-        .select({ id: urls.id, loc: urls.loc })
-        .from(urls)
-        .where(inArray(urls.id, urlIds));
+      // URLs that are excluded, broken, blocked or unchanged are not sent
+      const eligibility = await checkEligibility('INDEXNOW', urlIds, { settings: project.settings, force });
+      await recordSkippedSubmissions(projectId, 'INDEXNOW', 'URL_UPDATED', eligibility.skipped);
+      const urlRecords = eligibility.eligible;
+      const skippedCount = eligibility.skipped.length;
+      
+      if (skippedCount > 0) {
+        logger.info({
+          jobId,
+          skippedCount,
+          reasons: Object.fromEntries(countByReason(eligibility.skipped)),
+        }, 'Skipped ineligible URLs');
+      }
+      
+      if (urlRecords.length === 0) {
+        return { urlCount: 0, skippedCount, successfulEngines: [], failedEngines: [], duration: Date.now() - startTime };
+      }
       
       const urlList = urlRecords.map(u => u.loc);
+      const submittedIds = urlRecords.map(u => u.id);
       
       // Submit to all IndexNow engines in parallel
       const limiter = pLimit(CONFIG.CONCURRENT_ENGINES);
@@ -143,12 +160,11 @@ export const indexNowSubmitterWorker = new Worker<IndexNowPayload>(
             bingStatus: 'SUBMITTED',
             bingSubmittedAt: new Date(),
           })
-          .where(inArray(urls.id, urlIds));
+          .where(inArray(urls.id, submittedIds));
       }
       
       // Update quota
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      const today = quotaDay('INDEXNOW');
       
       await db
         .insert(quotaUsage)
@@ -156,13 +172,13 @@ export const indexNowSubmitterWorker = new Worker<IndexNowPayload>(
           projectId,
           engine: 'INDEXNOW',
           date: today,
-          used: urlIds.length,
+          used: submittedIds.length,
           limit: CONFIG.DAILY_QUOTA,
         })
         .onConflictDoUpdate({
-          target: [quotaUsage.projectId, quotaUsage.engine, quotaUsage.date],
+          target: [quotaUsage.projectId, quotaUsage.engine, quotaUsage.api, quotaUsage.credentialId, quotaUsage.date],
           set: {
-            used: sql`${quotaUsage.used} + ${urlIds.length}`,
+            used: sql`${quotaUsage.used} + ${submittedIds.length}`,
           },
         });
       
@@ -171,21 +187,23 @@ export const indexNowSubmitterWorker = new Worker<IndexNowPayload>(
       
       // Metrics
       const duration = Date.now() - startTime;
-      metrics.counter('indexnow_submissions_total', urlIds.length, { 
+      metrics.counter('indexnow_submissions_total', submittedIds.length, { 
         status: successfulEngines.length > 0 ? 'success' : 'failed' 
       });
       metrics.histogram('indexnow_submission_duration_ms', duration);
       
       logger.info({
         jobId,
-        urlCount: urlIds.length,
+        urlCount: submittedIds.length,
+        skippedCount,
         successfulEngines,
         failedEngines,
         duration,
       }, 'IndexNow submission completed');
       
       return {
-        urlCount: urlIds.length,
+        urlCount: submittedIds.length,
+        skippedCount,
         successfulEngines,
         failedEngines,
         duration,
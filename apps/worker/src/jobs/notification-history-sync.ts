@@ -0,0 +1,166 @@
+import { Job, Worker } from 'bullmq';
+import { db } from '@repo/db';
+import { urls, jobs } from '@repo/db/schema';
+import { eq, and, isNull, gt, asc, count } from 'drizzle-orm';
+import { logger } from '../lib/logger';
+import { redis } from '../lib/redis';
+import { metrics } from '../lib/metrics';
+import { loadGoogleCredentialPool, CredentialPool } from '../lib/credential-pool';
+import { MAX_BATCH_SIZE } from '../lib/google-batch';
+import { quotaDay } from '../lib/quota';
+import { incrementJobCounters } from '../lib/job-metadata';
+import { syncNotificationHistory, NotificationHistorySync } from '../lib/notification-history';
+
+// ============ TYPES ============
+interface NotificationSyncPayload {
+  projectId: string;
+  jobId?: string; // NOTIFICATION_SYNC jobs row
+}
+
+// ============ CONFIGURATION ============
+const CONFIG = {
+  PAGE_SIZE: 1000, // URLs loaded at a time; requests go out in batches of 100
+};
+
+// ============ WORKER ============
+// One-off import of Google's notification history for projects that were
+// submitted with another tool before. URLs already checked are skipped, so a
+// failed or interrupted run can simply be started again.
+export const notificationSyncWorker = new Worker<NotificationSyncPayload>(
+  'notification-sync',
+  async (job: Job<NotificationSyncPayload>) => {
+    const { projectId, jobId } = job.data;
+    const startTime = Date.now();
+    
+    try {
+      if (jobId) {
+        await db
+          .update(jobs)
+          .set({ status: 'PROCESSING', startedAt: new Date() })
+          .where(eq(jobs.id, jobId));
+      }
+      
+      // Each service account has its own read quota, so batches rotate
+      const pool = await loadGoogleCredentialPool(projectId, quotaDay('GOOGLE'), 'ROUND_ROBIN');
+      
+      const pending = and(
+        eq(urls.projectId, projectId),
+        isNull(urls.removedAt),
+        isNull(urls.googleNotificationsCheckedAt)
+      );
+      
+      const [{ total }] = await db
+        .select({ total: count() })
+        .from(urls)
+        .where(pending);
+      
+      logger.info({ jobId, projectId, urlCount: Number(total) }, 'Starting notification history sync');
+      
+      const counts = { synced: 0, neverNotified: 0, failed: 0 };
+      let processed = 0;
+      let lastId: string | null = null;
+      
+      for (;;) {
+        const page: { id: string; loc: string }[] = await db
+          .select({ id: urls.id, loc: urls.loc })
+          .from(urls)
+          .where(lastId ? and(pending, gt(urls.id, lastId)) : pending)
+          .orderBy(asc(urls.id))
+          .limit(CONFIG.PAGE_SIZE);
+        
+        if (page.length === 0) break;
+        lastId = page[page.length - 1].id;
+        
+        for (let i = 0; i < page.length; i += MAX_BATCH_SIZE) {
+          const batch = page.slice(i, i + MAX_BATCH_SIZE);
+          const batchCounts = await syncBatch(pool, batch);
+          
+          counts.synced += batchCounts.synced;
+          counts.neverNotified += batchCounts.neverNotified;
+          counts.failed += batchCounts.failed;
+          processed += batch.length;
+          await job.updateProgress(Math.round((processed / Math.max(Number(total), 1)) * 100));
+        }
+        
+        if (jobId) {
+          await db
+            .update(jobs)
+            .set({ processedItems: processed })
+            .where(eq(jobs.id, jobId));
+        }
+      }
+      
+      if (jobId) {
+        await incrementJobCounters(jobId, {
+          urlsSynced: counts.synced,
+          urlsNeverNotified: counts.neverNotified,
+          urlsFailed: counts.failed,
+        });
+        await db
+          .update(jobs)
+          .set({
+            status: 'COMPLETED',
+            completedAt: new Date(),
+            progress: 100,
+            totalItems: Number(total),
+            processedItems: processed,
+          })
+          .where(eq(jobs.id, jobId));
+      }
+      
+      const duration = Date.now() - startTime;
+      metrics.counter('notification_history_synced_total', counts.synced);
+      metrics.histogram('job_duration_ms', duration, { type: 'NOTIFICATION_SYNC' });
+      logger.info({ jobId, projectId, ...counts, duration }, 'Notification history sync completed');
+      
+      return { ...counts, duration };
+      
+    } catch (error) {
+      logger.error({ jobId, projectId, error }, 'Notification history sync failed');
+      
+      if (jobId) {
+        await db
+          .update(jobs)
+          .set({
+            status: 'FAILED',
+            completedAt: new Date(),
+            errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          })
+          .where(eq(jobs.id, jobId));
+      }
+      throw error;
+    }
+  },
+  {
+    connection: redis,
+    concurrency: 1, // Runs are long and share the per-account read quota
+  }
+);
+
+// ============ BATCHES ============
+// Each batch goes out under the next credential in rotation. One that Google
+// refuses or throttles is reported to the pool and the batch is tried with
+// the next; the last error is thrown once none is left.
+async function syncBatch(
+  pool: CredentialPool,
+  batch: { id: string; loc: string }[]
+): Promise<NotificationHistorySync> {
+  let lastError: unknown = new Error('No Google credential left in rotation');
+  
+  for (let account = pool.pick(); account; account = pool.pick()) {
+    try {
+      return await syncNotificationHistory(account, batch);
+    } catch (error: any) {
+      const statusCode = error.code === 401 ? 403 : error.code;
+      if (statusCode !== 403 && statusCode !== 429) throw error;
+      
+      logger.warn({ credential: account.label, statusCode }, 'Failing over to the next Google credential');
+      pool.reportFailure(account, statusCode);
+      lastError = error;
+    }
+  }
+  
+  throw lastError;
+}
+
+export default notificationSyncWorker;
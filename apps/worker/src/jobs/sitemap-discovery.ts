@@ -0,0 +1,121 @@
+import { Job, Worker } from 'bullmq';
+import { db } from '@repo/db';
+import { projects, sitemaps, DiscoveredSitemap } from '@repo/db/schema';
+import { eq } from 'drizzle-orm';
+import { discoverSitemaps } from '@repo/crawler/discovery';
+import { logger } from '../lib/logger';
+import { redis } from '../lib/redis';
+import { metrics } from '../lib/metrics';
+import { sitemapDiscoveryQueue } from '../lib/queues';
+
+// ============ TYPES ============
+interface SitemapDiscoveryPayload {
+  projectId?: string; // Omitted for the periodic sweep over all active projects
+}
+
+// ============ CONFIGURATION ============
+const CONFIG = {
+  SWEEP_CRON: '0 4 * * *', // Daily; sitemaps appear rarely
+  REQUEST_TIMEOUT_MS: 10000,
+  USER_AGENT: 'SitemapIndexerPro/2.0 (Enterprise Edition; +https://indexerpro.io/bot)',
+};
+
+// ============ WORKER ============
+export const sitemapDiscoveryWorker = new Worker<SitemapDiscoveryPayload>(
+  'sitemap-discovery',
+  async (job: Job<SitemapDiscoveryPayload>) => {
+    const { projectId } = job.data;
+    
+    if (!projectId) {
+      return await fanOutSweep();
+    }
+    
+    const [project] = await db
+      .select({
+        id: projects.id,
+        domain: projects.domain,
+        sitemapUrl: projects.sitemapUrl,
+        discoveredSitemaps: projects.discoveredSitemaps,
+      })
+      .from(projects)
+      .where(eq(projects.id, projectId))
+      .limit(1);
+    
+    if (!project) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+    
+    const { robotsTxtFound, candidates } = await discoverSitemaps(project.domain, {
+      userAgent: CONFIG.USER_AGENT,
+      timeoutMs: CONFIG.REQUEST_TIMEOUT_MS,
+    });
+    
+    // Keep when each candidate first appeared across runs
+    const previous = new Map((project.discoveredSitemaps ?? []).map(c => [c.url, c]));
+    const merged: DiscoveredSitemap[] = candidates.map(candidate => ({
+      ...candidate,
+      firstSeenAt: previous.get(candidate.url)?.firstSeenAt
+        ?? previous.get(candidate.url)?.checkedAt
+        ?? candidate.checkedAt,
+    }));
+    
+    // Sitemaps the project does not scan yet and that were not offered before
+    const scanned = await db
+      .select({ url: sitemaps.url })
+      .from(sitemaps)
+      .where(eq(sitemaps.projectId, projectId));
+    const known = new Set([project.sitemapUrl, ...scanned.map(s => s.url)]);
+    const newSitemaps = merged.filter(c => c.valid && !known.has(c.url) && !previous.has(c.url));
+    
+    await db
+      .update(projects)
+      .set({
+        discoveredSitemaps: merged,
+        sitemapsDiscoveredAt: new Date(),
+      })
+      .where(eq(projects.id, projectId));
+    
+    if (newSitemaps.length > 0) {
+      logger.info({ 
+        projectId, 
+        sitemaps: newSitemaps.map(s => s.url) 
+      }, 'New sitemaps discovered');
+      metrics.counter('sitemaps_discovered_total', newSitemaps.length, { projectId });
+    }
+    
+    return {
+      robotsTxtFound,
+      candidateCount: merged.length,
+      newSitemapCount: newSitemaps.length,
+    };
+  },
+  {
+    connection: redis,
+    concurrency: 5,
+  }
+);
+
+// ============ PERIODIC SWEEP ============
+async function fanOutSweep() {
+  const activeProjects = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(eq(projects.isActive, true));
+  
+  await sitemapDiscoveryQueue.addBulk(
+    activeProjects.map(project => ({
+      name: 'discover',
+      data: { projectId: project.id },
+      opts: { attempts: 2, removeOnComplete: true, removeOnFail: 100 },
+    }))
+  );
+  
+  logger.info({ projectCount: activeProjects.length }, 'Queued sitemap discovery');
+  
+  return { projectCount: activeProjects.length };
+}
+
+// Repeatable jobs are keyed by name and pattern, so every replica can register it
+sitemapDiscoveryQueue
+  .add('sweep', {}, { repeat: { pattern: CONFIG.SWEEP_CRON }, removeOnComplete: true })
+  .catch(error => logger.error({ error }, 'Failed to schedule sitemap discovery'));
@@ -2,34 +2,94 @@ import { Job, Worker } from 'bullmq';
 import { createHash } from 'crypto';
 import { pipeline } from 'stream/promises';
 import { createGunzip } from 'zlib';
-import { Readable } from 'stream';
-import sax from 'sax';
+import { Readable, Transform, Writable } from 'stream';
+import { StringDecoder } from 'string_decoder';
 import pRetry from 'p-retry';
 import pLimit from 'p-limit';
 import { db } from '@repo/db';
-import { projects, sitemaps, urls, jobs } from '@repo/db/schema';
-import { eq, and, sql } from 'drizzle-orm';
+import { projects, sitemaps, sitemapSources, urls, urlRevisions, jobs, URL_EXTENSION_KEYS } from '@repo/db/schema';
+import { eq, and, sql, inArray, SQL } from 'drizzle-orm';
 import { logger } from '../lib/logger';
 import { redis } from '../lib/redis';
 import { metrics } from '../lib/metrics';
+import { incrementJobCounters, appendJobMetadataItems } from '../lib/job-metadata';
+import {
+  startScan,
+  addPendingSitemaps,
+  completePendingSitemap,
+  claimSitemaps,
+  releaseSitemaps,
+  ScanProgress,
+} from '../lib/scan-tracker';
+import { googleSubmitterQueue } from '../lib/queues';
+import { createSitemapParser, ParsedUrl, ChildSitemap, SitemapType } from '../lib/sitemap-parser';
+import { createSitemapLinter, SitemapLinter, parsePriority, parseChangefreq } from '../lib/sitemap-lint';
+import { compileUrlRules, UrlRuleSet } from '@repo/crawler/url-rules';
+import { createNormalizer, UrlNormalizer } from '@repo/crawler/normalize';
+import { evaluateRobots, describeRobotsRule, ROBOTS_AGENTS, RobotsTxt } from '@repo/crawler/robots';
+import { getRobotsForUrls, originOf } from '../lib/robots-cache';
 
 // ============ TYPES ============
 interface SitemapScannerPayload {
   projectId: string;
   jobId: string;
-  sitemapUrl?: string; // If not provided, use project's main sitemap
+  sitemapUrl?: string; // Omitted on the scan job itself, which dispatches the project's sources
+  sourceId?: string; // Root sitemap source the tree belongs to
   isIndex?: boolean;
   parentSitemapId?: string;
   depth?: number;
+  syncMode?: SyncMode; // Decided by the scan job from its type, inherited by every sitemap
+  indexLastmod?: string; // <lastmod> of this sitemap in its parent index
+  ancestors?: string[]; // Index URLs from the root down to the parent, for cycle detection
 }
 
-interface ParsedUrl {
-  loc: string;
-  lastmod?: string;
-  changefreq?: string;
-  priority?: string;
+type SyncMode = 'FULL_SCAN' | 'INCREMENTAL_SYNC';
+
+interface ScanWarning {
+  type: 'SITEMAP_CYCLE' | 'DUPLICATE_SITEMAP' | 'MAX_DEPTH_EXCEEDED' | 'INVALID_SITEMAP_URL';
+  url: string;
+  parentUrl: string;
+  chain?: string[];
+}
+
+interface UrlChangeCounts {
+  urlsNew: number;
+  urlsUpdated: number;
+  urlsUnchanged: number;
+  urlsExcluded: number; // Matched an exclude rule (counted in the totals above too)
+  urlsDuplicate: number; // Rows (re)flagged as near-duplicates of another row
+}
+
+// Project settings applied to every URL of a scan
+interface UrlProcessing {
+  urlRules: UrlRuleSet;
+  normalize: UrlNormalizer;
 }
 
+interface ConditionalHeaders {
+  etag?: string | null;
+  lastModified?: Date | null;
+}
+
+interface StreamProgress {
+  bytesRead: number;
+  totalBytes: number | null;
+}
+
+type BatchHandler = (batch: ParsedUrl[], progress: StreamProgress) => Promise<void>;
+
+type FetchResult =
+  | { notModified: true }
+  | {
+      notModified: false;
+      type: SitemapType;
+      urlCount: number;
+      childSitemaps: ChildSitemap[];
+      contentHash: string;
+      etag: string | null;
+      lastModified: Date | null;
+    };
+
 // ============ CONFIGURATION ============
 const CONFIG = {
   MAX_RECURSION_DEPTH: 10,
@@ -37,6 +97,8 @@ const CONFIG = {
   CONCURRENT_SITEMAP_FETCHES: 5,
   FETCH_TIMEOUT_MS: 60000,
   MAX_RETRIES: 3,
+  LOOKUP_CHUNK_SIZE: 1000, // Sitemap URLs per stored-lastmod lookup
+  DELETION_NOTIFY_CHUNK_SIZE: 100, // URL ids per google-submitter job
   USER_AGENT: 'SitemapIndexerPro/2.0 (Enterprise Edition; +https://indexerpro.io/bot)',
 };
 
@@ -44,130 +106,54 @@ const CONFIG = {
 export const sitemapScannerWorker = new Worker<SitemapScannerPayload>(
   'sitemap-scanner',
   async (job: Job<SitemapScannerPayload>) => {
-    const { projectId, jobId, sitemapUrl, isIndex, parentSitemapId, depth = 0 } = job.data;
+    const { projectId, jobId, sitemapUrl, parentSitemapId, depth = 0 } = job.data;
+    const indexLastmod = parseLastmod(job.data.indexLastmod);
+    const syncMode: SyncMode = job.data.syncMode ?? 'FULL_SCAN';
     const startTime = Date.now();
     
     logger.info({ jobId, projectId, sitemapUrl, depth }, 'Starting sitemap scan');
     
+    let outcome: Record<string, unknown>;
     try {
-      // Get project details
-      const [project] = await db
-        .select()
-        .from(projects)
-        .where(eq(projects.id, projectId))
-        .limit(1);
-      
-      if (!project) {
-        throw new Error(`Project ${projectId} not found`);
-      }
-      
-      const targetUrl = sitemapUrl || project.sitemapUrl;
-      
-      // Update job status
-      await db
-        .update(jobs)
-        .set({ status: 'PROCESSING', startedAt: new Date() })
-        .where(eq(jobs.id, jobId));
-      
-      // Fetch and parse sitemap
-      const { type, urls: parsedUrls, childSitemaps } = await fetchAndParseSitemap(targetUrl);
-      
-      logger.info({ 
-        jobId, 
-        type, 
-        urlCount: parsedUrls.length, 
-        childCount: childSitemaps.length 
-      }, 'Sitemap parsed successfully');
-      
-      // Store/update sitemap record
-      const [sitemapRecord] = await db
-        .insert(sitemaps)
-        .values({
-          projectId,
-          url: targetUrl,
-          type,
-          parentId: parentSitemapId,
-          urlCount: parsedUrls.length,
-          lastFetchedAt: new Date(),
-          contentHash: createHash('sha256').update(JSON.stringify(parsedUrls)).digest('hex'),
-        })
-        .onConflictDoUpdate({
-          target: [sitemaps.projectId, sitemaps.url],
-          set: {
-            urlCount: parsedUrls.length,
-            lastFetchedAt: new Date(),
-            contentHash: createHash('sha256').update(JSON.stringify(parsedUrls)).digest('hex'),
-          },
-        })
-        .returning();
-      
-      // Batch upsert URLs
-      if (parsedUrls.length > 0) {
-        await batchUpsertUrls(projectId, sitemapRecord.id, parsedUrls, job);
-      }
+      outcome = await scanSitemap(job, syncMode, indexLastmod, startTime);
+    } catch (error) {
+      logger.error({ jobId, projectId, error }, 'Sitemap scan failed');
       
-      // Recursively process child sitemaps (for sitemap index files)
-      if (childSitemaps.length > 0 && depth < CONFIG.MAX_RECURSION_DEPTH) {
-        const limiter = pLimit(CONFIG.CONCURRENT_SITEMAP_FETCHES);
+      // Retried jobs stay pending in the tree until their final attempt
+      if (job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         
-        await Promise.all(
-          childSitemaps.map(childUrl =>
-            limiter(() =>
-              job.queue?.add('sitemap-scanner', {
-                projectId,
-                jobId, // Same parent job ID for tracking
-                sitemapUrl: childUrl,
-                isIndex: false,
-                parentSitemapId: sitemapRecord.id,
-                depth: depth + 1,
-              })
-            )
-          )
-        );
+        if (!sitemapUrl) {
+          // Without its sources there is no tree to scan
+          await db
+            .update(jobs)
+            .set({ 
+              status: 'FAILED', 
+              completedAt: new Date(),
+              errorMessage,
+            })
+            .where(eq(jobs.id, jobId));
+        } else {
+          // A broken child must not fail its siblings; it is reported on the job instead
+          await appendJobMetadataItems(jobId, 'failedSitemaps', [{
+            url: sitemapUrl,
+            sourceId: job.data.sourceId,
+            parentSitemapId,
+            depth,
+            error: errorMessage,
+          }]);
+        }
         
-        logger.info({ jobId, childCount: childSitemaps.length }, 'Queued child sitemaps');
+        await finishSitemap(job, { failed: true });
       }
       
-      // Update project stats
-      await updateProjectStats(projectId);
-      
-      // Complete job only if this is the root sitemap
-      if (depth === 0) {
-        await db
-          .update(jobs)
-          .set({ 
-            status: 'COMPLETED', 
-            completedAt: new Date(),
-            progress: 100,
-          })
-          .where(eq(jobs.id, jobId));
-      }
-      
-      // Metrics
-      const duration = Date.now() - startTime;
-      metrics.histogram('sitemap_scan_duration_ms', duration, { type });
-      metrics.counter('urls_discovered_total', parsedUrls.length, { projectId });
-      
-      return {
-        urlCount: parsedUrls.length,
-        childSitemapCount: childSitemaps.length,
-        duration,
-      };
-      
-    } catch (error) {
-      logger.error({ jobId, projectId, error }, 'Sitemap scan failed');
-      
-      await db
-        .update(jobs)
-        .set({ 
-          status: 'FAILED', 
-          completedAt: new Date(),
-          errorMessage: error instanceof Error ? error.message : 'Unknown error',
-        })
-        .where(eq(jobs.id, jobId));
-      
       throw error;
     }
+    
+    // Outside the try: if completing throws, the catch must not count the sitemap again
+    await finishSitemap(job);
+    
+    return outcome;
   },
   {
     connection: redis,
@@ -179,23 +165,664 @@ export const sitemapScannerWorker = new Worker<SitemapScannerPayload>(
   }
 );
 
+// ============ SITEMAP SCAN ============
+// One sitemap of the tree, or the scan job itself when there is no sitemapUrl.
+// The worker counts it as finished once this returns.
+async function scanSitemap(
+  job: Job<SitemapScannerPayload>,
+  syncMode: SyncMode,
+  indexLastmod: Date | null,
+  startTime: number
+) {
+  const { projectId, jobId, sitemapUrl, isIndex, parentSitemapId } = job.data;
+  
+  // Get project details
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+  
+  if (!project) {
+    throw new Error(`Project ${projectId} not found`);
+  }
+  
+  // The scan job itself only fans out to the project's root sitemaps
+  if (!sitemapUrl) {
+    return await dispatchSources(job, project);
+  }
+  
+  const targetUrl = sitemapUrl;
+  
+  // Sitemap record (also holds the validators for a conditional request).
+  // It exists before parsing so URL batches can reference it as they stream in.
+  const sitemapRecord = await ensureSitemapRecord(
+    projectId,
+    targetUrl,
+    parentSitemapId,
+    job.data.sourceId,
+    isIndex ? 'INDEX' : 'URLSET'
+  );
+  
+  // Fetch and parse sitemap, upserting URLs batch by batch
+  const fetchStartedAt = new Date();
+  const urlChanges: UrlChangeCounts = { urlsNew: 0, urlsUpdated: 0, urlsUnchanged: 0, urlsExcluded: 0, urlsDuplicate: 0 };
+  const linter = createSitemapLinter(project.domain);
+  const processing: UrlProcessing = {
+    urlRules: compileUrlRules(project.settings),
+    normalize: createNormalizer(project.settings?.normalization),
+  };
+  let result: FetchResult;
+  try {
+    result = await fetchAndParseSitemap(targetUrl, sitemapRecord, linter, async (batch, progress) => {
+      const batchChanges = await batchUpsertUrls(projectId, jobId, sitemapRecord.id, batch, processing);
+      urlChanges.urlsNew += batchChanges.urlsNew;
+      urlChanges.urlsUpdated += batchChanges.urlsUpdated;
+      urlChanges.urlsUnchanged += batchChanges.urlsUnchanged;
+      urlChanges.urlsExcluded += batchChanges.urlsExcluded;
+      urlChanges.urlsDuplicate += batchChanges.urlsDuplicate;
+      
+      if (progress.totalBytes) {
+        await job.updateProgress(
+          Math.min(99, Math.round((progress.bytesRead / progress.totalBytes) * 100))
+        );
+      }
+    });
+  } catch (error) {
+    await db
+      .update(sitemaps)
+      .set({
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        // Keep the previous report when the body was never read (HTTP errors)
+        ...(linter.hasContent && { lintReport: linter.report(sitemapRecord.type) }),
+      })
+      .where(eq(sitemaps.id, sitemapRecord.id));
+    throw error;
+  }
+  
+  if (result.notModified) {
+    return await handleNotModified(job, targetUrl, sitemapRecord, syncMode, indexLastmod, startTime);
+  }
+  
+  const { type, urlCount, childSitemaps, contentHash, etag, lastModified } = result;
+  const lintReport = linter.report(type);
+  
+  logger.info({ 
+    jobId, 
+    type, 
+    urlCount, 
+    childCount: childSitemaps.length 
+  }, 'Sitemap parsed successfully');
+  
+  // Update sitemap record
+  await db
+    .update(sitemaps)
+    .set({
+      type,
+      urlCount,
+      etag,
+      lastModified,
+      // What an incremental sync compares the index's next <lastmod> against
+      ...(indexLastmod && { indexLastmod }),
+      lastFetchedAt: new Date(),
+      lastChangedAt: fetchStartedAt,
+      contentHash,
+      errorMessage: null,
+      lintReport,
+    })
+    .where(eq(sitemaps.id, sitemapRecord.id));
+  
+  await incrementJobCounters(jobId, {
+    sitemapsRefetched: 1,
+    sitemapsWithLintErrors: lintReport.errorCount > 0 ? 1 : 0,
+    ...urlChanges,
+  });
+  await job.updateProgress(100);
+  
+  // Recursively process child sitemaps (for sitemap index files)
+  const changedChildren = syncMode === 'INCREMENTAL_SYNC'
+    ? await selectChangedChildren(jobId, projectId, childSitemaps)
+    : childSitemaps;
+  await enqueueChildSitemaps(job, targetUrl, sitemapRecord.id, changedChildren, syncMode);
+  
+  // Update project stats
+  await updateProjectStats(projectId);
+  
+  // Metrics
+  const duration = Date.now() - startTime;
+  metrics.histogram('sitemap_scan_duration_ms', duration, { type });
+  metrics.counter('urls_discovered_total', urlCount, { projectId });
+  
+  return {
+    urlCount,
+    ...urlChanges,
+    childSitemapCount: changedChildren.length,
+    duration,
+  };
+}
+
+// ============ SITEMAP RECORD ============
+async function ensureSitemapRecord(
+  projectId: string,
+  url: string,
+  parentSitemapId: string | undefined,
+  sourceId: string | undefined,
+  typeHint: 'INDEX' | 'URLSET'
+) {
+  const [record] = await db
+    .insert(sitemaps)
+    .values({
+      projectId,
+      url,
+      type: typeHint,
+      parentId: parentSitemapId,
+      sourceId,
+    })
+    .onConflictDoUpdate({
+      target: [sitemaps.projectId, sitemaps.url],
+      set: {
+        parentId: sql`COALESCE(EXCLUDED.parent_id, ${sitemaps.parentId})`,
+        sourceId: sql`COALESCE(EXCLUDED.source_id, ${sitemaps.sourceId})`,
+      },
+    })
+    .returning({
+      id: sitemaps.id,
+      type: sitemaps.type,
+      etag: sitemaps.etag,
+      lastModified: sitemaps.lastModified,
+    });
+  
+  return record;
+}
+
+// ============ SITEMAP SOURCES ============
+// The scan job dispatches every enabled root sitemap of the project as depth 0
+// of its own tree; all trees report to the same jobs row and scan counters.
+async function dispatchSources(
+  job: Job<SitemapScannerPayload>,
+  project: { id: string; sitemapUrl: string }
+) {
+  const { projectId, jobId } = job.data;
+  
+  await startScan(jobId);
+  const [scanJob] = await db
+    .update(jobs)
+    .set({ status: 'PROCESSING', startedAt: new Date() })
+    .where(eq(jobs.id, jobId))
+    .returning({ type: jobs.type });
+  
+  const syncMode: SyncMode = scanJob?.type === 'INCREMENTAL_SYNC' ? 'INCREMENTAL_SYNC' : 'FULL_SCAN';
+  
+  const sources = (await loadSources(project)).filter(source => source.isEnabled);
+  if (sources.length === 0) {
+    throw new Error('No enabled sitemap sources');
+  }
+  
+  // Claimed like children, so an index under one root never rescans another root
+  const keys = sources.map(s => canonicalSitemapUrl(s.url) ?? s.url);
+  const claimed = await claimSitemaps(jobId, keys);
+  const accepted = sources
+    .map((source, i) => ({ ...source, key: keys[i] }))
+    .filter((_, i) => claimed[i]);
+  
+  await addPendingSitemaps(jobId, accepted.length);
+  
+  await queueClaimedSitemaps(
+    job,
+    accepted.map(source => ({
+      key: source.key,
+      data: {
+        projectId,
+        jobId,
+        sitemapUrl: source.url,
+        sourceId: source.id,
+        depth: 0,
+        syncMode,
+        ancestors: [],
+      },
+    }))
+  );
+  
+  await incrementJobCounters(jobId, { sitemapSources: accepted.length });
+  logger.info({ jobId, projectId, sourceCount: accepted.length, syncMode }, 'Dispatched sitemap sources');
+  
+  return { sourceCount: accepted.length };
+}
+
+// Projects created before sources existed get their primary sitemap as the first source
+async function loadSources(project: { id: string; sitemapUrl: string }) {
+  const sources = await db
+    .select({ id: sitemapSources.id, url: sitemapSources.url, isEnabled: sitemapSources.isEnabled })
+    .from(sitemapSources)
+    .where(eq(sitemapSources.projectId, project.id));
+  
+  if (sources.length > 0) {
+    return sources;
+  }
+  
+  await db
+    .insert(sitemapSources)
+    .values({ projectId: project.id, url: project.sitemapUrl })
+    .onConflictDoNothing();
+  
+  return db
+    .select({ id: sitemapSources.id, url: sitemapSources.url, isEnabled: sitemapSources.isEnabled })
+    .from(sitemapSources)
+    .where(eq(sitemapSources.projectId, project.id));
+}
+
+// ============ DATE HELPERS ============
+function parseLastmod(value?: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// ============ NOT MODIFIED (304) ============
+async function handleNotModified(
+  job: Job<SitemapScannerPayload>,
+  sitemapUrl: string,
+  sitemap: { id: string; type: string },
+  syncMode: SyncMode,
+  indexLastmod: Date | null,
+  startTime: number
+) {
+  const { projectId, jobId } = job.data;
+  
+  logger.info({ jobId, sitemapId: sitemap.id }, 'Sitemap not modified, skipping parse');
+  
+  await db
+    .update(sitemaps)
+    .set({
+      ...(indexLastmod && { indexLastmod }),
+      lastFetchedAt: new Date(),
+      errorMessage: null,
+    })
+    .where(eq(sitemaps.id, sitemap.id));
+  
+  await incrementJobCounters(jobId, { sitemapsNotModified: 1 });
+  
+  // An unchanged index still lists children that may have changed on their own,
+  // so a full scan re-checks the children we already know about (each one
+  // conditionally). An incremental sync trusts the unchanged index's <lastmod>s.
+  let childSitemapCount = 0;
+  if (sitemap.type === 'INDEX' && syncMode === 'FULL_SCAN') {
+    const children = await db
+      .select({ url: sitemaps.url })
+      .from(sitemaps)
+      .where(and(eq(sitemaps.projectId, projectId), eq(sitemaps.parentId, sitemap.id)));
+    
+    childSitemapCount = children.length;
+    await enqueueChildSitemaps(job, sitemapUrl, sitemap.id, children.map(c => ({ loc: c.url })), syncMode);
+  }
+  
+  const duration = Date.now() - startTime;
+  metrics.histogram('sitemap_scan_duration_ms', duration, { type: sitemap.type });
+  metrics.counter('sitemaps_not_modified_total', 1, { projectId });
+  
+  return {
+    urlCount: 0,
+    childSitemapCount,
+    notModified: true,
+    duration,
+  };
+}
+
+// ============ CHILD SITEMAPS ============
+// Incremental sync: keep only children whose index <lastmod> moved past the
+// one stored at their last fetch. Children without a usable <lastmod>, or
+// never fetched with one, are kept.
+async function selectChangedChildren(
+  jobId: string,
+  projectId: string,
+  childSitemaps: ChildSitemap[]
+): Promise<ChildSitemap[]> {
+  const changed: ChildSitemap[] = [];
+  
+  for (let i = 0; i < childSitemaps.length; i += CONFIG.LOOKUP_CHUNK_SIZE) {
+    const chunk = childSitemaps.slice(i, i + CONFIG.LOOKUP_CHUNK_SIZE);
+    const stored = await db
+      .select({ url: sitemaps.url, indexLastmod: sitemaps.indexLastmod })
+      .from(sitemaps)
+      .where(
+        and(
+          eq(sitemaps.projectId, projectId),
+          inArray(sitemaps.url, chunk.map(c => c.loc))
+        )
+      );
+    const storedLastmod = new Map(stored.map(s => [s.url, s.indexLastmod]));
+    
+    for (const child of chunk) {
+      const lastmod = parseLastmod(child.lastmod);
+      const previous = storedLastmod.get(child.loc);
+      if (!lastmod || !previous || lastmod > previous) {
+        changed.push(child);
+      }
+    }
+  }
+  
+  const skipped = childSitemaps.length - changed.length;
+  await incrementJobCounters(jobId, { sitemapsUnchangedByLastmod: skipped });
+  logger.info({ jobId, changed: changed.length, skipped }, 'Incremental sync selected changed child sitemaps');
+  
+  return changed;
+}
+
+async function enqueueChildSitemaps(
+  job: Job<SitemapScannerPayload>,
+  parentUrl: string,
+  parentSitemapId: string,
+  childSitemaps: ChildSitemap[],
+  syncMode: SyncMode
+): Promise<void> {
+  const { projectId, jobId, depth = 0 } = job.data;
+  
+  if (childSitemaps.length === 0) {
+    return;
+  }
+  
+  const warnings: ScanWarning[] = [];
+  
+  if (depth >= CONFIG.MAX_RECURSION_DEPTH) {
+    warnings.push(
+      ...childSitemaps.map(child => ({ type: 'MAX_DEPTH_EXCEEDED' as const, url: child.loc, parentUrl }))
+    );
+    await reportScanWarnings(jobId, warnings);
+    return;
+  }
+  
+  // Cycles: a child pointing back at an index on its own path from the root
+  const chain = [...(job.data.ancestors ?? []), canonicalSitemapUrl(parentUrl) ?? parentUrl];
+  const ancestors = new Set(chain);
+  const candidates: Array<ChildSitemap & { key: string }> = [];
+  
+  for (const child of childSitemaps) {
+    const key = canonicalSitemapUrl(child.loc);
+    if (!key) {
+      warnings.push({ type: 'INVALID_SITEMAP_URL', url: child.loc, parentUrl });
+    } else if (ancestors.has(key)) {
+      warnings.push({ type: 'SITEMAP_CYCLE', url: child.loc, parentUrl, chain });
+    } else {
+      candidates.push({ ...child, key });
+    }
+  }
+  
+  // Duplicates: already queued by this scan through another index (or listed twice)
+  const claimed = await claimSitemaps(jobId, candidates.map(c => c.key));
+  const accepted = candidates.filter((child, i) => {
+    if (!claimed[i]) {
+      warnings.push({ type: 'DUPLICATE_SITEMAP', url: child.loc, parentUrl });
+    }
+    return claimed[i];
+  });
+  
+  await reportScanWarnings(jobId, warnings);
+  
+  if (accepted.length === 0) {
+    return;
+  }
+  
+  // Count children before they can start, so the tree never looks finished early
+  await addPendingSitemaps(jobId, accepted.length);
+  
+  await queueClaimedSitemaps(
+    job,
+    accepted.map(child => ({
+      key: child.key,
+      data: {
+        projectId,
+        jobId, // Same parent job ID for tracking
+        sitemapUrl: child.loc,
+        sourceId: job.data.sourceId,
+        isIndex: false,
+        parentSitemapId,
+        depth: depth + 1,
+        syncMode,
+        indexLastmod: child.lastmod,
+        ancestors: chain,
+      },
+    }))
+  );
+  
+  logger.info({ jobId, childCount: accepted.length }, 'Queued child sitemaps');
+}
+
+// Sitemaps that fail to queue are released again and the first error is
+// rethrown, so the parent's retry picks them up
+async function queueClaimedSitemaps(
+  job: Job<SitemapScannerPayload>,
+  entries: Array<{ key: string; data: SitemapScannerPayload }>
+): Promise<void> {
+  const limiter = pLimit(CONFIG.CONCURRENT_SITEMAP_FETCHES);
+  const results = await Promise.allSettled(
+    entries.map(entry => limiter(() => job.queue?.add('sitemap-scanner', entry.data)))
+  );
+  
+  const failed = entries.filter((_, i) => results[i].status === 'rejected');
+  if (failed.length === 0) return;
+  
+  await releaseSitemaps(job.data.jobId, failed.map(entry => entry.key));
+  throw (results.find(result => result.status === 'rejected') as PromiseRejectedResult).reason;
+}
+
+// Comparison key for sitemap URLs: WHATWG serialization lowercases the host,
+// drops default ports and the fragment. Returns null for non-URLs.
+function canonicalSitemapUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+  } catch {
+    return null;
+  }
+}
+
+async function reportScanWarnings(jobId: string, warnings: ScanWarning[]): Promise<void> {
+  if (warnings.length === 0) return;
+  
+  logger.warn({ jobId, warnings: warnings.slice(0, 10), count: warnings.length }, 'Sitemap scan warnings');
+  
+  const counters: Record<string, number> = {};
+  for (const warning of warnings) {
+    const counter = {
+      SITEMAP_CYCLE: 'sitemapCycles',
+      DUPLICATE_SITEMAP: 'sitemapDuplicates',
+      MAX_DEPTH_EXCEEDED: 'sitemapsBeyondMaxDepth',
+      INVALID_SITEMAP_URL: 'invalidSitemapUrls',
+    }[warning.type];
+    counters[counter] = (counters[counter] ?? 0) + 1;
+  }
+  
+  await appendJobMetadataItems(jobId, 'scanWarnings', warnings.map(warning => ({ ...warning })));
+  await incrementJobCounters(jobId, counters);
+}
+
+// ============ SCAN COMPLETION ============
+// Progress on the `jobs` row covers the whole sitemap tree: items are sitemaps,
+// and the total grows as index files reveal more children.
+async function finishSitemap(
+  job: Job<SitemapScannerPayload>,
+  options: { failed?: boolean } = {}
+): Promise<void> {
+  const { projectId, jobId } = job.data;
+  
+  const progress = await completePendingSitemap(jobId, options);
+  
+  if (progress.finished) {
+    await finalizeScan(projectId, jobId, progress);
+    return;
+  }
+  
+  const percent = progress.total > 0
+    ? Math.min(99, Math.floor((progress.processed / progress.total) * 100))
+    : 0;
+  
+  // Workers finish out of order, so never move the counters backwards
+  await db
+    .update(jobs)
+    .set({
+      totalItems: sql`GREATEST(COALESCE(${jobs.totalItems}, 0), ${progress.total})`,
+      processedItems: sql`GREATEST(COALESCE(${jobs.processedItems}, 0), ${progress.processed})`,
+      progress: sql`GREATEST(${jobs.progress}, ${percent})`,
+    })
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, 'PROCESSING')));
+}
+
+async function finalizeScan(projectId: string, jobId: string, progress: ScanProgress): Promise<void> {
+  const [scanJob] = await db
+    .select({ type: jobs.type, status: jobs.status, startedAt: jobs.startedAt })
+    .from(jobs)
+    .where(eq(jobs.id, jobId))
+    .limit(1);
+  
+  if (!scanJob || scanJob.status === 'FAILED') {
+    logger.warn({ jobId, projectId }, 'Scan job failed, scan not completed');
+    return;
+  }
+  
+  if (scanJob.type === 'FULL_SCAN' && scanJob.startedAt) {
+    // A partial scan cannot prove that a URL is gone
+    if (progress.failed > 0) {
+      logger.warn({ jobId, projectId, failed: progress.failed }, 'Scan had failed sitemaps, skipping removed URL detection');
+    } else {
+      const removedIds = await detectRemovedUrls(projectId, scanJob.startedAt);
+      await incrementJobCounters(jobId, { urlsRemoved: removedIds.length });
+      
+      if (removedIds.length > 0) {
+        const [project] = await db
+          .select({ settings: projects.settings })
+          .from(projects)
+          .where(eq(projects.id, projectId))
+          .limit(1);
+        
+        if (project?.settings?.notifyRemovedUrls) {
+          await queueDeletionNotifications(projectId, removedIds);
+        }
+      }
+    }
+    
+    await updateProjectStats(projectId);
+  }
+  
+  await db
+    .update(jobs)
+    .set({ 
+      status: 'COMPLETED', 
+      completedAt: new Date(),
+      progress: 100,
+      totalItems: progress.total,
+      processedItems: progress.processed,
+      errorMessage: progress.failed > 0
+        ? `${progress.failed} of ${progress.total} sitemaps failed`
+        : null,
+    })
+    .where(eq(jobs.id, jobId));
+  
+  logger.info({ jobId, projectId, ...progress }, 'Scan completed');
+}
+
+// ============ REMOVED URL DETECTION ============
+// A URL is still listed if its sitemap was fetched during this scan and the URL
+// was seen at or after that sitemap's last re-parse. This keeps URLs of sitemaps
+// that answered 304 (not re-parsed) while catching URLs of dropped sitemaps.
+async function detectRemovedUrls(projectId: string, scanStartedAt: Date): Promise<string[]> {
+  const result = await db.execute<{ id: string }>(sql`
+    UPDATE urls u
+    SET removed_at = NOW()
+    WHERE u.project_id = ${projectId}
+      AND u.removed_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM sitemaps s
+        WHERE s.id = u.sitemap_id
+          AND s.last_fetched_at >= ${scanStartedAt}
+          AND u.last_seen_at >= COALESCE(s.last_changed_at, '-infinity'::timestamptz)
+      )
+      -- Disabled sources were not scanned, so their URLs cannot be judged
+      AND NOT EXISTS (
+        SELECT 1 FROM sitemaps s
+        JOIN sitemap_sources src ON src.id = s.source_id
+        WHERE s.id = u.sitemap_id
+          AND NOT src.is_enabled
+      )
+    RETURNING u.id
+  `);
+  
+  const removedIds = result.rows.map(row => row.id);
+  
+  logger.info({ projectId, removedCount: removedIds.length }, 'Removed URL detection finished');
+  metrics.counter('urls_removed_total', removedIds.length, { projectId });
+  
+  return removedIds;
+}
+
+async function queueDeletionNotifications(projectId: string, urlIds: string[]): Promise<void> {
+  const [submissionJob] = await db
+    .insert(jobs)
+    .values({
+      projectId,
+      type: 'GOOGLE_SUBMISSION',
+      status: 'PENDING',
+      metadata: {
+        engines: ['GOOGLE'],
+        action: 'URL_DELETED',
+        trigger: 'REMOVED_URLS',
+      },
+      totalItems: urlIds.length,
+    })
+    .returning({ id: jobs.id });
+  
+  const chunks: string[][] = [];
+  for (let i = 0; i < urlIds.length; i += CONFIG.DELETION_NOTIFY_CHUNK_SIZE) {
+    chunks.push(urlIds.slice(i, i + CONFIG.DELETION_NOTIFY_CHUNK_SIZE));
+  }
+  
+  await googleSubmitterQueue.addBulk(
+    chunks.map(chunk => ({
+      name: 'google-submitter',
+      data: {
+        projectId,
+        jobId: submissionJob.id,
+        urlIds: chunk,
+        action: 'URL_DELETED' as const,
+      },
+    }))
+  );
+  
+  logger.info({ projectId, jobId: submissionJob.id, urlCount: urlIds.length }, 'Queued URL_DELETED notifications');
+}
+
 // ============ FETCH & PARSE ============
-async function fetchAndParseSitemap(url: string): Promise<{
-  type: 'INDEX' | 'URLSET';
-  urls: ParsedUrl[];
-  childSitemaps: string[];
-}> {
+async function fetchAndParseSitemap(
+  url: string,
+  conditional: ConditionalHeaders | undefined,
+  linter: SitemapLinter,
+  onBatch: BatchHandler
+): Promise<FetchResult> {
+  const requestHeaders: Record<string, string> = {
+    'User-Agent': CONFIG.USER_AGENT,
+    'Accept': 'application/xml, text/xml, application/rss+xml, application/atom+xml, text/plain, */*',
+    'Accept-Encoding': 'gzip, deflate',
+  };
+  
+  if (conditional?.etag) {
+    requestHeaders['If-None-Match'] = conditional.etag;
+  }
+  if (conditional?.lastModified) {
+    requestHeaders['If-Modified-Since'] = conditional.lastModified.toUTCString();
+  }
+  
   const response = await pRetry(
     async () => {
       const res = await fetch(url, {
-        headers: {
-          'User-Agent': CONFIG.USER_AGENT,
-          'Accept': 'application/xml, text/xml, */*',
-          'Accept-Encoding': 'gzip, deflate',
-        },
+        headers: requestHeaders,
         signal: AbortSignal.timeout(CONFIG.FETCH_TIMEOUT_MS),
       });
       
+      // 304 is only meaningful when we actually sent validators
+      if (res.status === 304 && (conditional?.etag || conditional?.lastModified)) {
+        return res;
+      }
+      
       if (!res.ok) {
         throw new Error(`HTTP ${res.status}: ${res.statusText}`);
       }
@@ -210,143 +837,343 @@ async function fetchAndParseSitemap(url: string): Promise<{
     }
   );
   
-  // Get response body as stream
-  const contentEncoding = response.headers.get('content-encoding');
-  let bodyStream: ReadableStream<Uint8Array> | null = response.body;
+  if (response.status === 304) {
+    return { notModified: true };
+  }
+  
+  const etag = response.headers.get('etag');
+  const lastModifiedHeader = response.headers.get('last-modified');
+  const lastModifiedDate = lastModifiedHeader ? new Date(lastModifiedHeader) : null;
+  const lastModified = lastModifiedDate && !isNaN(lastModifiedDate.getTime()) ? lastModifiedDate : null;
   
-  if (!bodyStream) {
+  const contentLength = Number(response.headers.get('content-length'));
+  const progress: StreamProgress = {
+    bytesRead: 0,
+    totalBytes: contentLength > 0 ? contentLength : null,
+  };
+  
+  if (!response.body) {
     throw new Error('Empty response body');
   }
   
-  // Handle gzip decompression
-  if (contentEncoding === 'gzip' || url.endsWith('.gz')) {
-    const nodeStream = Readable.fromWeb(bodyStream as any);
-    const gunzip = createGunzip();
-    bodyStream = Readable.toWeb(nodeStream.pipe(gunzip)) as ReadableStream<Uint8Array>;
-  }
+  // Streaming parser (format is detected from the content)
+  const childSitemaps: ChildSitemap[] = [];
+  let urlCount = 0;
   
-  // SAX streaming parser
-  return new Promise((resolve, reject) => {
-    const parser = sax.createStream(true, { trim: true });
-    const urls: ParsedUrl[] = [];
-    const childSitemaps: string[] = [];
-    let currentUrl: Partial<ParsedUrl> = {};
-    let currentTag = '';
-    let isIndex = false;
-    
-    parser.on('opentag', (node) => {
-      currentTag = node.name.toLowerCase();
-      if (currentTag === 'sitemapindex') {
-        isIndex = true;
-      }
-    });
-    
-    parser.on('text', (text) => {
-      const trimmed = text.trim();
-      if (!trimmed) return;
-      
-      switch (currentTag) {
-        case 'loc':
-          if (isIndex) {
-            childSitemaps.push(trimmed);
-          } else {
-            currentUrl.loc = trimmed;
-          }
-          break;
-        case 'lastmod':
-          currentUrl.lastmod = trimmed;
-          break;
-        case 'changefreq':
-          currentUrl.changefreq = trimmed;
-          break;
-        case 'priority':
-          currentUrl.priority = trimmed;
-          break;
+  // Parsed URLs are buffered only until the next full batch; the writable below
+  // does not accept more bytes until queued batches are in the database.
+  let buffer: ParsedUrl[] = [];
+  const readyBatches: ParsedUrl[][] = [];
+  
+  const parser = createSitemapParser({
+    onUrl: (parsedUrl) => {
+      linter.checkUrl(parsedUrl);
+      buffer.push(parsedUrl);
+      urlCount++;
+      if (buffer.length >= CONFIG.BATCH_SIZE) {
+        readyBatches.push(buffer);
+        buffer = [];
       }
-    });
-    
-    parser.on('closetag', (name) => {
-      if (name.toLowerCase() === 'url' && currentUrl.loc) {
-        urls.push(currentUrl as ParsedUrl);
-        currentUrl = {};
+    },
+    onChildSitemap: (child) => {
+      linter.checkChildSitemap(child);
+      childSitemaps.push(child);
+    },
+  });
+  
+  const flushReadyBatches = async () => {
+    while (readyBatches.length > 0) {
+      await onBatch(readyBatches.shift()!, progress);
+    }
+  };
+  
+  // Content hash over the raw response bytes, computed as they pass through
+  const hash = createHash('sha256');
+  const hashTap = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      progress.bytesRead += chunk.length;
+      callback(null, chunk);
+    },
+  });
+  
+  const decoder = new StringDecoder('utf8');
+  const parserSink = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      try {
+        const text = decoder.write(chunk);
+        linter.checkText(text, chunk.length);
+        parser.write(text);
+      } catch (error) {
+        linter.recordXmlError(error as Error);
+        return callback(error as Error);
       }
-      currentTag = '';
-    });
-    
-    parser.on('error', reject);
-    parser.on('end', () => {
-      resolve({
-        type: isIndex ? 'INDEX' : 'URLSET',
-        urls,
-        childSitemaps,
-      });
-    });
-    
-    // Pipe the stream through the parser
-    const reader = bodyStream!.getReader();
-    const decoder = new TextDecoder();
-    
-    (async () => {
+      flushReadyBatches().then(() => callback(), callback);
+    },
+    final(callback) {
       try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) {
-            parser.end();
-            break;
-          }
-          parser.write(decoder.decode(value, { stream: true }));
-        }
+        const text = decoder.end();
+        linter.checkText(text, 0);
+        parser.write(text);
+        parser.end();
       } catch (error) {
-        reject(error);
+        linter.recordXmlError(error as Error);
+        return callback(error as Error);
+      }
+      if (buffer.length > 0) {
+        readyBatches.push(buffer);
+        buffer = [];
       }
-    })();
+      flushReadyBatches().then(() => callback(), callback);
+    },
   });
+  
+  const stages: NodeJS.ReadWriteStream[] = [hashTap];
+  
+  // Handle gzip decompression
+  const contentEncoding = response.headers.get('content-encoding');
+  if (contentEncoding === 'gzip' || url.endsWith('.gz')) {
+    stages.push(createGunzip());
+  }
+  
+  await pipeline([Readable.fromWeb(response.body as any), ...stages, parserSink]);
+  
+  return {
+    notModified: false,
+    type: parser.type,
+    urlCount,
+    childSitemaps,
+    contentHash: hash.digest('hex'),
+    etag,
+    lastModified,
+  };
 }
 
 // ============ BATCH UPSERT ============
+const extensionKeys = sql`ARRAY[${sql.join(URL_EXTENSION_KEYS.map(key => sql`${key}`), sql`, `)}]::text[]`;
+
 async function batchUpsertUrls(
   projectId: string,
+  jobId: string,
   sitemapId: string,
-  parsedUrls: ParsedUrl[],
-  job: Job
-): Promise<void> {
-  const total = parsedUrls.length;
-  let processed = 0;
-  
-  for (let i = 0; i < total; i += CONFIG.BATCH_SIZE) {
-    const batch = parsedUrls.slice(i, i + CONFIG.BATCH_SIZE);
-    
-    const values = batch.map(url => ({
+  batch: ParsedUrl[],
+  processing: UrlProcessing
+): Promise<UrlChangeCounts> {
+  const seenAt = new Date();
+  const robotsByOrigin = await getRobotsForUrls(batch.map(url => url.loc));
+  const values = batch.map(url => {
+    // Excluded URLs are still stored, but marked so submitters skip them
+    const decision = processing.urlRules.evaluate(url.loc);
+    const robots = checkRobots(robotsByOrigin, url.loc);
+    return {
       projectId,
       sitemapId,
       loc: url.loc,
       locHash: createHash('sha256').update(url.loc).digest('hex'),
-      lastmod: url.lastmod ? new Date(url.lastmod) : null,
-      changefreq: url.changefreq,
-      priority: url.priority ? parseFloat(url.priority) : null,
-    }));
-    
-    await db
-      .insert(urls)
-      .values(values)
-      .onConflictDoUpdate({
-        target: [urls.projectId, urls.locHash],
-        set: {
-          sitemapId,
-          lastmod: sql`EXCLUDED.lastmod`,
-          changefreq: sql`EXCLUDED.changefreq`,
-          priority: sql`EXCLUDED.priority`,
-        },
-      });
-    
-    processed += batch.length;
+      normalizedHash: createHash('sha256').update(processing.normalize(url.loc)).digest('hex'),
+      // Invalid values are reported by the sitemap lint and stored as NULL
+      lastmod: parseLastmod(url.lastmod),
+      changefreq: parseChangefreq(url.changefreq),
+      priority: parsePriority(url.priority),
+      metadata: url.extensions ?? {},
+      lastSeenAt: seenAt,
+      excludedAt: decision.excluded ? seenAt : null,
+      excludedRule: decision.excluded ? decision.rule?.slice(0, 255) ?? null : null,
+      ...robots,
+    };
+  });
+  
+  // Previous values, to tell new, updated and unchanged URLs apart
+  const existing = await db
+    .select({
+      id: urls.id,
+      locHash: urls.locHash,
+      lastmod: urls.lastmod,
+      changefreq: urls.changefreq,
+      priority: urls.priority,
+      removedAt: urls.removedAt,
+    })
+    .from(urls)
+    .where(
+      and(
+        eq(urls.projectId, projectId),
+        inArray(urls.locHash, values.map(v => v.locHash))
+      )
+    );
+  const existingByHash = new Map(existing.map(row => [row.locHash, row]));
+  
+  const counts: UrlChangeCounts = { urlsNew: 0, urlsUpdated: 0, urlsUnchanged: 0, urlsExcluded: 0, urlsDuplicate: 0 };
+  // locHashes whose lastmod, changefreq or priority differ from what was stored
+  const revised = new Set<string>();
+  for (const value of values) {
+    if (value.excludedAt) {
+      counts.urlsExcluded++;
+    }
     
-    // Update job progress
-    const progress = Math.round((processed / total) * 100);
-    await job.updateProgress(progress);
+    const previous = existingByHash.get(value.locHash);
+    if (!previous) {
+      counts.urlsNew++;
+      revised.add(value.locHash);
+      continue;
+    }
     
-    logger.debug({ processed, total, progress }, 'Batch inserted');
+    const valuesChanged =
+      (previous.lastmod?.getTime() ?? null) !== (value.lastmod?.getTime() ?? null) ||
+      (previous.changefreq ?? null) !== (value.changefreq ?? null) ||
+      (previous.priority !== null ? Number(previous.priority) : null) !== value.priority;
+    if (valuesChanged) {
+      revised.add(value.locHash);
+    }
+    if (valuesChanged || previous.removedAt !== null) {
+      counts.urlsUpdated++;
+    } else {
+      counts.urlsUnchanged++;
+    }
   }
+  
+  const upserted = await db
+    .insert(urls)
+    .values(values)
+    .onConflictDoUpdate({
+      target: [urls.projectId, urls.locHash],
+      set: {
+        sitemapId,
+        normalizedHash: sql`EXCLUDED.normalized_hash`,
+        lastmod: sql`EXCLUDED.lastmod`,
+        changefreq: sql`EXCLUDED.changefreq`,
+        priority: sql`EXCLUDED.priority`,
+        // Replace extension data but keep keys written by other jobs
+        metadata: sql`(COALESCE(${urls.metadata}, '{}'::jsonb) - ${extensionKeys}) || EXCLUDED.metadata`,
+        lastSeenAt: seenAt,
+        removedAt: null, // Reappeared after being removed
+        // Keep when a URL was first excluded; clear it once no rule excludes it
+        excludedAt: sql`CASE WHEN EXCLUDED.excluded_at IS NULL THEN NULL ELSE COALESCE(${urls.excludedAt}, EXCLUDED.excluded_at) END`,
+        excludedRule: sql`EXCLUDED.excluded_rule`,
+        // Unknown robots.txt (NULL state) keeps the previous evaluation
+        robotsTxtState: sql`COALESCE(EXCLUDED.robots_txt_state, ${urls.robotsTxtState})`,
+        robotsRule: sql`CASE WHEN EXCLUDED.robots_txt_state IS NULL THEN ${urls.robotsRule} ELSE EXCLUDED.robots_rule END`,
+        googleStatus: robotsStatusUpdate(urls.googleStatus, sql`EXCLUDED.google_status`),
+        bingStatus: robotsStatusUpdate(urls.bingStatus, sql`EXCLUDED.bing_status`),
+      },
+    })
+    .returning({ id: urls.id, locHash: urls.locHash });
+  
+  await recordRevisions(projectId, jobId, seenAt, values, upserted, revised);
+  
+  counts.urlsDuplicate = await resolveDuplicates(projectId, [...new Set(values.map(v => v.normalizedHash))]);
+  
+  logger.debug({ sitemapId, batchSize: batch.length, ...counts }, 'Batch inserted');
+  
+  return counts;
+}
+
+// ============ ROBOTS.TXT ============
+// Evaluated for Googlebot and Bingbot on every scan so rule changes apply to
+// all listed URLs. robotsTxtState and robotsRule describe the Googlebot result.
+function checkRobots(robotsByOrigin: Map<string, RobotsTxt | null>, loc: string) {
+  const origin = originOf(loc);
+  const robots = origin ? robotsByOrigin.get(origin) : null;
+  if (!robots) {
+    return {
+      robotsTxtState: null,
+      robotsRule: null,
+      googleStatus: 'DISCOVERED' as const,
+      bingStatus: 'DISCOVERED' as const,
+    };
+  }
+  
+  const google = evaluateRobots(robots, ROBOTS_AGENTS.GOOGLEBOT, loc);
+  const bing = evaluateRobots(robots, ROBOTS_AGENTS.BINGBOT, loc);
+  return {
+    robotsTxtState: google.allowed ? 'ALLOWED' : 'DISALLOWED',
+    robotsRule: google.rule ? describeRobotsRule(google.rule).slice(0, 255) : null,
+    googleStatus: google.allowed ? ('DISCOVERED' as const) : ('BLOCKED_ROBOTS' as const),
+    bingStatus: bing.allowed ? ('DISCOVERED' as const) : ('BLOCKED_ROBOTS' as const),
+  };
+}
+
+// Blocks a URL unless it is a DUPLICATE, whose canonical row carries the
+// status; unblocks it once robots.txt allows it again. Other statuses are kept.
+function robotsStatusUpdate(column: typeof urls.googleStatus | typeof urls.bingStatus, incoming: SQL) {
+  return sql`CASE
+    WHEN ${incoming} = 'BLOCKED_ROBOTS' AND ${column} IS DISTINCT FROM 'DUPLICATE' THEN 'BLOCKED_ROBOTS'::indexing_status
+    WHEN ${column} = 'BLOCKED_ROBOTS' AND EXCLUDED.robots_txt_state IS NOT NULL AND ${incoming} <> 'BLOCKED_ROBOTS' THEN 'DISCOVERED'::indexing_status
+    ELSE ${column}
+  END`;
+}
+
+// ============ REVISION HISTORY ============
+// One row per observed change of lastmod, changefreq or priority (including
+// the first sighting), so submitters can tell whether a page changed since it
+// was last submitted. Unchanged rescans add nothing.
+async function recordRevisions(
+  projectId: string,
+  jobId: string,
+  observedAt: Date,
+  values: Array<{ locHash: string; lastmod: Date | null; changefreq: string | null; priority: number | null }>,
+  upserted: Array<{ id: string; locHash: string }>,
+  revised: Set<string>
+): Promise<void> {
+  if (revised.size === 0) return;
+  
+  const idByHash = new Map(upserted.map(row => [row.locHash, row.id]));
+  const revisions = values
+    .filter(value => revised.has(value.locHash) && idByHash.has(value.locHash))
+    .map(value => ({
+      urlId: idByHash.get(value.locHash)!,
+      projectId,
+      jobId,
+      lastmod: value.lastmod,
+      changefreq: value.changefreq,
+      priority: value.priority?.toFixed(1) ?? null,
+      observedAt,
+    }));
+  
+  if (revisions.length > 0) {
+    await db.insert(urlRevisions).values(revisions);
+  }
+}
+
+// ============ DUPLICATE DETECTION ============
+// Rows sharing a normalized hash form a group. The canonical row is the one
+// whose loc is already normalized, else the oldest; the others become
+// DUPLICATE and point at it. A row that stops being a duplicate (rules
+// changed, canonical removed) goes back to DISCOVERED so it is submitted again.
+async function resolveDuplicates(projectId: string, normalizedHashes: string[]): Promise<number> {
+  if (normalizedHashes.length === 0) return 0;
+  
+  const result = await db.execute(sql`
+    WITH ranked AS (
+      SELECT
+        id,
+        FIRST_VALUE(id) OVER (
+          PARTITION BY normalized_hash
+          ORDER BY (loc_hash = normalized_hash) DESC, first_seen_at, id
+        ) AS canonical_id
+      FROM urls
+      WHERE project_id = ${projectId}
+        AND normalized_hash IN (${sql.join(normalizedHashes.map(hash => sql`${hash}`), sql`, `)})
+        AND removed_at IS NULL
+    )
+    UPDATE urls u
+    SET
+      canonical_url_id = NULLIF(r.canonical_id, u.id),
+      google_status = CASE
+        WHEN r.canonical_id <> u.id THEN 'DUPLICATE'::indexing_status
+        WHEN u.google_status = 'DUPLICATE' THEN 'DISCOVERED'::indexing_status
+        ELSE u.google_status
+      END
+    FROM ranked r
+    WHERE u.id = r.id
+      AND (
+        u.canonical_url_id IS DISTINCT FROM NULLIF(r.canonical_id, u.id)
+        OR (r.canonical_id <> u.id AND u.google_status IS DISTINCT FROM 'DUPLICATE')
+        OR (r.canonical_id = u.id AND u.google_status = 'DUPLICATE')
+      )
+    RETURNING u.google_status
+  `);
+  
+  return result.rows.filter((row: any) => row.google_status === 'DUPLICATE').length;
 }
 
 // ============ UPDATE PROJECT STATS ============
@@ -355,10 +1182,11 @@ async function updateProjectStats(projectId: string): Promise<void> {
     SELECT
       COUNT(*) as total,
       COUNT(*) FILTER (WHERE google_status = 'INDEXED') as indexed,
-      COUNT(*) FILTER (WHERE google_status IN ('DISCOVERED', 'QUEUED')) as pending,
+      COUNT(*) FILTER (WHERE google_status IN ('DISCOVERED', 'QUEUED') AND excluded_at IS NULL) as pending,
       COUNT(*) FILTER (WHERE google_status IN ('ERROR_4XX', 'ERROR_5XX', 'CRAWL_ERROR')) as errors
     FROM urls
     WHERE project_id = ${projectId}
+      AND removed_at IS NULL
   `);
   
   const { total, indexed, pending, errors } = stats.rows[0] as any;
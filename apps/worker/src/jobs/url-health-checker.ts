@@ -0,0 +1,341 @@
+import { Job, Worker } from 'bullmq';
+import pLimit from 'p-limit';
+import { db } from '@repo/db';
+import { projects, urls, jobs, UrlCanonical } from '@repo/db/schema';
+import { eq, and, sql, inArray, isNull, asc } from 'drizzle-orm';
+import { checkUrl, assessCanonical, HealthCheckResult } from '@repo/crawler/health-check';
+import { createNormalizer } from '@repo/crawler/normalize';
+import { evaluateRobots, ROBOTS_AGENTS, RobotsTxt } from '@repo/crawler/robots';
+import { logger } from '../lib/logger';
+import { redis } from '../lib/redis';
+import { metrics } from '../lib/metrics';
+import { incrementJobCounters, appendJobMetadataItems } from '../lib/job-metadata';
+import { urlHealthCheckQueue } from '../lib/queues';
+import { getRobotsTxt, originOf } from '../lib/robots-cache';
+
+// ============ TYPES ============
+interface UrlHealthCheckPayload {
+  projectId?: string; // Omitted for the periodic sweep over all active projects
+  jobId?: string; // HEALTH_CHECK jobs row, when triggered by a user
+  urlIds?: string[]; // Defaults to the project's URLs that are due for a check
+}
+
+type HealthStatus = 'ERROR_4XX' | 'ERROR_5XX' | 'CRAWL_ERROR' | 'REDIRECT' | 'BLOCKED_NOINDEX';
+
+// ============ CONFIGURATION ============
+const CONFIG = {
+  SWEEP_CRON: '0 2 * * *',
+  RECHECK_AFTER_DAYS: 7,
+  MAX_URLS_PER_RUN: 2000, // Per project; the next sweep continues with the oldest checks
+  CONCURRENCY: 4,
+  HOST_DELAY_MS: 1000, // Minimum gap between requests to one host, across all workers
+  REQUEST_TIMEOUT_MS: 15000,
+  USER_AGENT: 'SitemapIndexerPro/2.0 (Enterprise Edition; +https://indexerpro.io/bot)',
+};
+
+// Statuses this worker owns: a page that is healthy again leaves them
+const HEALTH_STATUSES: HealthStatus[] = ['ERROR_4XX', 'ERROR_5XX', 'CRAWL_ERROR', 'REDIRECT', 'BLOCKED_NOINDEX'];
+
+const EMPTY_ROBOTS: RobotsTxt = { groups: [] };
+
+// ============ WORKER ============
+export const urlHealthCheckWorker = new Worker<UrlHealthCheckPayload>(
+  'url-health-check',
+  async (job: Job<UrlHealthCheckPayload>) => {
+    const { projectId, jobId, urlIds } = job.data;
+    
+    if (!projectId) {
+      return await fanOutSweep();
+    }
+    
+    const startTime = Date.now();
+    
+    try {
+      if (jobId) {
+        await db
+          .update(jobs)
+          .set({ status: 'PROCESSING', startedAt: new Date() })
+          .where(eq(jobs.id, jobId));
+      }
+      
+      const [project] = await db
+        .select({ settings: projects.settings })
+        .from(projects)
+        .where(eq(projects.id, projectId))
+        .limit(1);
+      const normalize = createNormalizer(project?.settings?.normalization);
+      
+      const targets = await selectTargets(projectId, urlIds);
+      logger.info({ jobId, projectId, urlCount: targets.length }, 'Starting URL health check');
+      
+      const counts: Record<string, number> = { urlsChecked: 0, urlsHealthy: 0 };
+      const limiter = pLimit(CONFIG.CONCURRENCY);
+      
+      await Promise.all(
+        targets.map(target => limiter(async () => {
+          const robots = await robotsFor(target.loc);
+          if (!robots || !evaluateRobots(robots, ROBOTS_AGENTS.SELF, target.loc).allowed) {
+            const key = robots ? 'urlsBlockedRobots' : 'urlsRobotsUnavailable';
+            counts[key] = (counts[key] ?? 0) + 1;
+            await db
+              .update(urls)
+              .set({ lastHealthCheckAt: new Date() }) // Rotates it behind URLs that can be checked
+              .where(eq(urls.id, target.id));
+            return;
+          }
+          
+          await waitForHostSlot(target.loc);
+          const result = await checkUrl(target.loc, {
+            userAgent: CONFIG.USER_AGENT,
+            timeoutMs: CONFIG.REQUEST_TIMEOUT_MS,
+            // Redirect targets get the same robots.txt and politeness rules
+            beforeRedirect: async (url) => {
+              const targetRobots = await robotsFor(url);
+              if (!targetRobots || !evaluateRobots(targetRobots, ROBOTS_AGENTS.SELF, url).allowed) {
+                counts.redirectsBlockedRobots = (counts.redirectsBlockedRobots ?? 0) + 1;
+                return false;
+              }
+              await waitForHostSlot(url);
+              return true;
+            },
+          });
+          const status = classify(result);
+          // A redirected URL has no page of its own, so no canonical either
+          const canonical = result.canonicalLinks && !result.finalUrl
+            ? assessCanonical(target.loc, result.canonicalLinks, normalize)
+            : null;
+          await recordResult(target.id, result, status, canonical);
+          
+          if (canonical && canonical.status !== 'SELF') {
+            const key = `urlsCanonical${toCounterSuffix(canonical.status)}`;
+            counts[key] = (counts[key] ?? 0) + 1;
+          }
+          
+          const redirectWarnings = result.redirectChain?.warnings ?? [];
+          for (const warning of redirectWarnings) {
+            const key = `urls${toCounterSuffix(warning)}`;
+            counts[key] = (counts[key] ?? 0) + 1;
+          }
+          if (jobId && redirectWarnings.length > 0) {
+            await appendJobMetadataItems(jobId, 'redirectWarnings', [{
+              url: target.loc,
+              finalUrl: result.finalUrl,
+              hops: result.redirectChain!.hops.length,
+              warnings: redirectWarnings,
+            }]);
+          }
+          
+          counts.urlsChecked++;
+          const outcome = status === undefined ? 'RATE_LIMITED' : status ?? 'HEALTHY';
+          const key = `urls${toCounterSuffix(outcome)}`;
+          counts[key] = (counts[key] ?? 0) + 1;
+          metrics.counter('url_health_checks_total', 1, { status: outcome });
+          metrics.histogram('url_health_check_response_ms', result.responseTimeMs);
+          
+          if (counts.urlsChecked % 50 === 0) {
+            await job.updateProgress(Math.round((counts.urlsChecked / targets.length) * 100));
+          }
+        }))
+      );
+      
+      await updateErrorCount(projectId);
+      
+      if (jobId) {
+        await incrementJobCounters(jobId, counts);
+        await db
+          .update(jobs)
+          .set({
+            status: 'COMPLETED',
+            completedAt: new Date(),
+            progress: 100,
+            totalItems: targets.length,
+            processedItems: counts.urlsChecked,
+          })
+          .where(eq(jobs.id, jobId));
+      }
+      
+      const duration = Date.now() - startTime;
+      metrics.histogram('job_duration_ms', duration, { type: 'HEALTH_CHECK' });
+      logger.info({ jobId, projectId, ...counts, duration }, 'URL health check completed');
+      
+      return { ...counts, duration };
+      
+    } catch (error) {
+      logger.error({ jobId, projectId, error }, 'URL health check failed');
+      
+      if (jobId) {
+        await db
+          .update(jobs)
+          .set({
+            status: 'FAILED',
+            completedAt: new Date(),
+            errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          })
+          .where(eq(jobs.id, jobId));
+      }
+      throw error;
+    }
+  },
+  {
+    connection: redis,
+    concurrency: 2,
+  }
+);
+
+// ============ TARGET SELECTION ============
+// Never-checked URLs first, then the oldest checks. Removed URLs are skipped:
+// they are no longer listed and their status no longer matters.
+async function selectTargets(projectId: string, urlIds?: string[]) {
+  const conditions = [eq(urls.projectId, projectId), isNull(urls.removedAt)];
+  
+  if (urlIds?.length) {
+    conditions.push(inArray(urls.id, urlIds));
+  } else {
+    conditions.push(sql`(
+      ${urls.lastHealthCheckAt} IS NULL
+      OR ${urls.lastHealthCheckAt} < NOW() - make_interval(days => ${CONFIG.RECHECK_AFTER_DAYS})
+    )`);
+  }
+  
+  return db
+    .select({ id: urls.id, loc: urls.loc })
+    .from(urls)
+    .where(and(...conditions))
+    .orderBy(sql`${urls.lastHealthCheckAt} ASC NULLS FIRST`, asc(urls.id))
+    .limit(CONFIG.MAX_URLS_PER_RUN);
+}
+
+// ============ CLASSIFICATION ============
+// Errors at the end of the chain win over redirects (a redirect to a 404 is
+// broken), loops and overlong chains are crawl errors, and noindex only
+// matters on a page that answered successfully. 429 says nothing about the
+// page, so the previous status and canonical are kept (undefined). Returns
+// null for a healthy page.
+function classify(result: HealthCheckResult): HealthStatus | null | undefined {
+  if (result.error || result.finalStatus === null) return 'CRAWL_ERROR';
+  if (result.finalStatus === 429) return undefined;
+  if (result.finalStatus >= 500) return 'ERROR_5XX';
+  if (result.finalStatus >= 400) return 'ERROR_4XX';
+  if (result.redirectChain || result.finalStatus >= 300) return 'REDIRECT';
+  if (result.noindex) return 'BLOCKED_NOINDEX';
+  return null;
+}
+
+async function recordResult(
+  urlId: string,
+  result: HealthCheckResult,
+  status: HealthStatus | null | undefined,
+  canonical: UrlCanonical | null
+): Promise<void> {
+  const healthStatuses = sql.join(HEALTH_STATUSES.map(s => sql`${s}::indexing_status`), sql`, `);
+  const isHealthStatus = sql`${urls.googleStatus} IN (${healthStatuses})`;
+  
+  // A failing page remembers the status it had, and gets it back once healthy.
+  // DUPLICATE is left alone: the canonical row carries the group's status.
+  const statusUpdate = status === null
+    ? {
+      googleStatus: sql`CASE WHEN ${isHealthStatus} THEN COALESCE(${urls.googleStatusBeforeHealth}, 'DISCOVERED'::indexing_status) ELSE ${urls.googleStatus} END`,
+      googleStatusBeforeHealth: null,
+    }
+    : {
+      googleStatus: sql`CASE WHEN ${urls.googleStatus} = 'DUPLICATE' THEN ${urls.googleStatus} ELSE ${status}::indexing_status END`,
+      googleStatusBeforeHealth: sql`CASE WHEN ${isHealthStatus} OR ${urls.googleStatus} = 'DUPLICATE' THEN ${urls.googleStatusBeforeHealth} ELSE ${urls.googleStatus} END`,
+    };
+  
+  // Only pages that answered successfully declare a canonical
+  const metadata = canonical
+    ? sql`COALESCE(${urls.metadata}, '{}'::jsonb) || jsonb_build_object('canonical', ${JSON.stringify(canonical)}::jsonb)`
+    : sql`COALESCE(${urls.metadata}, '{}'::jsonb) - 'canonical'`;
+  
+  await db
+    .update(urls)
+    .set({
+      httpStatus: result.httpStatus,
+      responseTimeMs: result.responseTimeMs,
+      finalUrl: result.finalUrl,
+      finalStatus: result.finalStatus,
+      redirectChain: result.redirectChain,
+      lastHealthCheckAt: new Date(),
+      ...(status !== undefined && { ...statusUpdate, metadata, noindex: result.noindex }),
+    })
+    .where(eq(urls.id, urlId));
+}
+
+// ============ POLITENESS ============
+// Our own crawler obeys robots.txt; unknown rules (null) count as disallowed.
+// Malformed URLs have no origin and are reported by checkUrl instead.
+async function robotsFor(loc: string): Promise<RobotsTxt | null> {
+  const origin = originOf(loc);
+  return origin ? await getRobotsTxt(origin) : EMPTY_ROBOTS;
+}
+
+// One request per host per HOST_DELAY_MS across every worker and replica: a
+// short-lived Redis key marks the host as busy until the delay has passed.
+async function waitForHostSlot(loc: string): Promise<void> {
+  let host: string;
+  try {
+    host = new URL(loc).host.toLowerCase();
+  } catch {
+    return; // checkUrl reports the malformed URL as a crawl error
+  }
+  
+  const key = `health-check:host:${host}`;
+  for (;;) {
+    const acquired = await redis.set(key, '1', 'PX', CONFIG.HOST_DELAY_MS, 'NX');
+    if (acquired) return;
+    const ttl = await redis.pttl(key);
+    await new Promise(r => setTimeout(r, Math.max(ttl, 50)));
+  }
+}
+
+// ============ HELPERS ============
+async function updateErrorCount(projectId: string): Promise<void> {
+  await db
+    .update(projects)
+    .set({
+      errorUrls: sql`(
+        SELECT COUNT(*) FROM ${urls}
+        WHERE ${urls.projectId} = ${projectId}
+          AND ${urls.removedAt} IS NULL
+          AND ${urls.googleStatus} IN ('ERROR_4XX', 'ERROR_5XX', 'CRAWL_ERROR')
+      )`,
+      updatedAt: new Date(),
+    })
+    .where(eq(projects.id, projectId));
+}
+
+// ERROR_4XX -> Error4xx, BLOCKED_NOINDEX -> BlockedNoindex
+function toCounterSuffix(status: string): string {
+  return status
+    .toLowerCase()
+    .split('_')
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+// ============ PERIODIC SWEEP ============
+async function fanOutSweep() {
+  const activeProjects = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(eq(projects.isActive, true));
+  
+  await urlHealthCheckQueue.addBulk(
+    activeProjects.map(project => ({
+      name: 'check',
+      data: { projectId: project.id },
+      opts: { attempts: 2, removeOnComplete: true, removeOnFail: 100 },
+    }))
+  );
+  
+  logger.info({ projectCount: activeProjects.length }, 'Queued URL health checks');
+  
+  return { projectCount: activeProjects.length };
+}
+
+// Repeatable jobs are keyed by name and pattern, so every replica can register it
+urlHealthCheckQueue
+  .add('sweep', {}, { repeat: { pattern: CONFIG.SWEEP_CRON }, removeOnComplete: true })
+  .catch(error => logger.error({ error }, 'Failed to schedule URL health checks'));
+
+export default urlHealthCheckWorker;
@@ -0,0 +1,378 @@
+import { Job, Worker } from 'bullmq';
+import { google, searchconsole_v1 } from 'googleapis';
+import pLimit from 'p-limit';
+import pRetry, { AbortError } from 'p-retry';
+import { db } from '@repo/db';
+import { projects, urls, jobs, credentials, quotaUsage } from '@repo/db/schema';
+import { eq, and, sql, inArray, isNull, asc } from 'drizzle-orm';
+import { logger } from '../lib/logger';
+import { redis } from '../lib/redis';
+import { metrics } from '../lib/metrics';
+import { quotaDay, reserveAccountQuota, settleAccountQuota } from '../lib/quota';
+import { waitForMinuteSlots } from '../lib/rate-limit';
+import { getGoogleAuth, GOOGLE_SCOPES } from '../lib/google-auth';
+import { searchConsoleProperty } from '../lib/search-console';
+import { incrementJobCounters, appendJobMetadataItems } from '../lib/job-metadata';
+import { urlInspectionQueue } from '../lib/queues';
+
+// ============ TYPES ============
+interface UrlInspectionPayload {
+  projectId?: string; // Omitted for the periodic sweep over all active projects
+  jobId?: string; // STATUS_CHECK jobs row, when triggered by a user
+  urlIds?: string[]; // Defaults to the project's URLs that are due for an inspection
+}
+
+type IndexStatusResult = searchconsole_v1.Schema$IndexStatusInspectionResult;
+
+// ============ CONFIGURATION ============
+const CONFIG = {
+  SWEEP_CRON: '0 4 * * *',
+  DAILY_QUOTA: 2000, // Per Search Console property, separate from the Indexing API
+  PER_MINUTE_QUOTA: 600, // Per property
+  RECHECK_AFTER_DAYS: 7,
+  CONCURRENCY: 5,
+  MAX_RETRIES: 3,
+};
+
+// Statuses inspection owns. Anything else explains why a URL is not indexed
+// (a broken page, robots.txt, noindex, a duplicate) and is kept when Google
+// reports the URL as not indexed.
+const INSPECTION_STATUSES = ['DISCOVERED', 'QUEUED', 'SUBMITTED', 'INDEXED', 'NOT_INDEXED'];
+
+// ============ WORKER ============
+export const urlInspectorWorker = new Worker<UrlInspectionPayload>(
+  'url-inspection',
+  async (job: Job<UrlInspectionPayload>) => {
+    const { projectId, jobId, urlIds } = job.data;
+    
+    if (!projectId) {
+      return await fanOutSweep();
+    }
+    
+    const startTime = Date.now();
+    
+    try {
+      if (jobId) {
+        await db
+          .update(jobs)
+          .set({ status: 'PROCESSING', startedAt: new Date() })
+          .where(eq(jobs.id, jobId));
+      }
+      
+      const [project] = await db
+        .select({ domain: projects.domain, settings: projects.settings })
+        .from(projects)
+        .where(eq(projects.id, projectId))
+        .limit(1);
+      
+      if (!project) {
+        throw new Error(`Project ${projectId} not found`);
+      }
+      
+      const siteUrl = searchConsoleProperty(project.domain, project.settings);
+      const auth = await getGoogleAuth(projectId, [GOOGLE_SCOPES.SEARCH_CONSOLE]);
+      const searchconsole = google.searchconsole({ version: 'v1', auth });
+      
+      // The quota belongs to the property, so it is reserved under the property
+      // for every project and run that inspects it
+      const today = quotaDay('GOOGLE');
+      const candidates = await selectTargets(projectId, urlIds, CONFIG.DAILY_QUOTA);
+      const reserved = await reserveAccountQuota(siteUrl, 'URL_INSPECTION', today, CONFIG.DAILY_QUOTA, candidates.length);
+      
+      if (candidates.length > 0 && reserved === 0) {
+        throw new Error('Daily URL Inspection API quota exhausted');
+      }
+      
+      const targets = candidates.slice(0, reserved);
+      logger.info({ jobId, projectId, siteUrl, urlCount: targets.length }, 'Starting URL inspection');
+      
+      const counts: Record<string, number> = { urlsInspected: 0, urlsIndexed: 0, urlsNotIndexed: 0 };
+      const errors: Record<string, unknown>[] = [];
+      let requestsMade = 0;
+      let processed = 0;
+      let stopReason: string | null = null;
+      const limiter = pLimit(CONFIG.CONCURRENCY);
+      
+      try {
+        await Promise.all(
+          targets.map(target => limiter(async () => {
+            if (stopReason) return;
+            
+            await waitForMinuteSlots(`url-inspection:${siteUrl}`, CONFIG.PER_MINUTE_QUOTA);
+            requestsMade++;
+            
+            try {
+              const result = await inspectUrl(searchconsole, siteUrl, target.loc);
+              const indexed = isIndexed(result);
+              await recordResult(target.id, result, indexed);
+              
+              counts.urlsInspected++;
+              counts[indexed ? 'urlsIndexed' : 'urlsNotIndexed']++;
+              metrics.counter('url_inspections_total', 1, { status: indexed ? 'INDEXED' : 'NOT_INDEXED' });
+            } catch (error: any) {
+              const statusCode = error.response?.status ?? error.code;
+              counts.urlsFailed = (counts.urlsFailed ?? 0) + 1;
+              metrics.counter('url_inspections_total', 1, { status: 'FAILED' });
+              errors.push({ url: target.loc, status: statusCode ?? null, error: error.message });
+              
+              if (statusCode === 401 || statusCode === 403) {
+                stopReason = `No access to Search Console property ${siteUrl}`;
+              } else if (statusCode === 429) {
+                stopReason = 'URL Inspection API quota exhausted';
+              } else if (statusCode >= 400 && statusCode < 500) {
+                // e.g. a URL outside the property: retrying tomorrow would fail
+                // the same way, so it moves behind the other URLs
+                await db
+                  .update(urls)
+                  .set({ googleLastCheckedAt: new Date() })
+                  .where(eq(urls.id, target.id));
+              }
+            }
+            
+            processed++;
+            if (processed % 50 === 0) {
+              await job.updateProgress(Math.round((processed / targets.length) * 100));
+            }
+          }))
+        );
+      } finally {
+        // Every request counts against the quota, including failed ones and
+        // those made before an error ended the run
+        await settleAccountQuota(siteUrl, 'URL_INSPECTION', today, reserved, requestsMade);
+        
+        // Per-project breakdown of the property's usage
+        await db
+          .insert(quotaUsage)
+          .values({
+            projectId,
+            engine: 'GOOGLE',
+            api: 'URL_INSPECTION',
+            date: today,
+            used: requestsMade,
+            limit: CONFIG.DAILY_QUOTA,
+          })
+          .onConflictDoUpdate({
+            target: [quotaUsage.projectId, quotaUsage.engine, quotaUsage.api, quotaUsage.credentialId, quotaUsage.date],
+            set: {
+              used: sql`${quotaUsage.used} + ${requestsMade}`,
+            },
+          });
+      }
+      
+      await updateIndexedCounts(projectId);
+      
+      if (stopReason && counts.urlsInspected === 0) {
+        throw new Error(stopReason);
+      }
+      
+      if (jobId) {
+        await incrementJobCounters(jobId, counts);
+        await appendJobMetadataItems(jobId, 'inspectionErrors', errors);
+        await db
+          .update(jobs)
+          .set({
+            status: 'COMPLETED',
+            completedAt: new Date(),
+            progress: 100,
+            totalItems: targets.length,
+            processedItems: counts.urlsInspected,
+            errorMessage: stopReason,
+          })
+          .where(eq(jobs.id, jobId));
+      }
+      
+      const duration = Date.now() - startTime;
+      metrics.histogram('job_duration_ms', duration, { type: 'STATUS_CHECK' });
+      logger.info({ jobId, projectId, ...counts, stopReason, duration }, 'URL inspection completed');
+      
+      return { ...counts, stopReason, duration };
+      
+    } catch (error) {
+      logger.error({ jobId, projectId, error }, 'URL inspection failed');
+      
+      if (jobId) {
+        await db
+          .update(jobs)
+          .set({
+            status: 'FAILED',
+            completedAt: new Date(),
+            errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          })
+          .where(eq(jobs.id, jobId));
+      }
+      throw error;
+    }
+  },
+  {
+    connection: redis,
+    concurrency: 2,
+  }
+);
+
+// ============ TARGET SELECTION ============
+// Never-inspected URLs first, then the oldest inspections, up to a day's
+// quota; the reservation decides how many are sent. Removed, excluded and
+// duplicate URLs are not worth a request.
+async function selectTargets(projectId: string, urlIds: string[] | undefined, limit: number) {
+  const conditions = [
+    eq(urls.projectId, projectId),
+    isNull(urls.removedAt),
+    isNull(urls.excludedAt),
+    isNull(urls.canonicalUrlId),
+  ];
+  
+  if (urlIds?.length) {
+    conditions.push(inArray(urls.id, urlIds));
+  } else {
+    conditions.push(sql`(
+      ${urls.googleLastCheckedAt} IS NULL
+      OR ${urls.googleLastCheckedAt} < NOW() - make_interval(days => ${CONFIG.RECHECK_AFTER_DAYS})
+      OR ${urls.googleSubmittedAt} > ${urls.googleLastCheckedAt}
+    )`);
+  }
+  
+  return db
+    .select({ id: urls.id, loc: urls.loc })
+    .from(urls)
+    .where(and(...conditions))
+    .orderBy(sql`${urls.googleLastCheckedAt} ASC NULLS FIRST`, asc(urls.id))
+    .limit(limit);
+}
+
+// ============ INSPECTION ============
+async function inspectUrl(
+  searchconsole: searchconsole_v1.Searchconsole,
+  siteUrl: string,
+  loc: string
+): Promise<IndexStatusResult> {
+  const response = await pRetry(
+    async () => {
+      try {
+        return await searchconsole.urlInspection.index.inspect({
+          requestBody: { inspectionUrl: loc, siteUrl },
+        });
+      } catch (error: any) {
+        // Only server errors are worth retrying
+        const statusCode = error.response?.status ?? error.code;
+        if (typeof statusCode === 'number' && statusCode < 500) {
+          throw new AbortError(error);
+        }
+        throw error;
+      }
+    },
+    {
+      retries: CONFIG.MAX_RETRIES,
+      onFailedAttempt: (error) => {
+        logger.warn({
+          url: loc,
+          attempt: error.attemptNumber,
+          error: error.message,
+        }, 'URL Inspection API retry');
+      },
+    }
+  );
+  
+  return response.data.inspectionResult?.indexStatusResult ?? {};
+}
+
+// PARTIAL is what older reports returned for "indexed, with warnings"
+function isIndexed(result: IndexStatusResult): boolean {
+  return result.verdict === 'PASS' || result.verdict === 'PARTIAL';
+}
+
+async function recordResult(urlId: string, result: IndexStatusResult, indexed: boolean): Promise<void> {
+  const inspectionStatuses = sql.join(INSPECTION_STATUSES.map(s => sql`${s}::indexing_status`), sql`, `);
+  
+  // DUPLICATE is left alone: the canonical row carries the group's status
+  const googleStatus = indexed
+    ? sql`CASE WHEN ${urls.googleStatus} = 'DUPLICATE' THEN ${urls.googleStatus} ELSE 'INDEXED'::indexing_status END`
+    : sql`CASE WHEN ${urls.googleStatus} IN (${inspectionStatuses}) THEN 'NOT_INDEXED'::indexing_status ELSE ${urls.googleStatus} END`;
+  
+  // What Google saw when it crawled, kept apart from robotsTxtState, which
+  // scans derive from the current robots.txt
+  const googleRobotsTxtState = result.robotsTxtState === 'ALLOWED' || result.robotsTxtState === 'DISALLOWED'
+    ? result.robotsTxtState
+    : undefined; // Google did not say; keep the previous report
+  
+  await db
+    .update(urls)
+    .set({
+      googleStatus,
+      coverageState: result.coverageState?.slice(0, 100) ?? null,
+      crawledAs: specified(result.crawledAs),
+      indexingState: specified(result.indexingState),
+      lastCrawlTime: result.lastCrawlTime ? new Date(result.lastCrawlTime) : null,
+      googleLastCheckedAt: new Date(),
+      ...(googleRobotsTxtState && { googleRobotsTxtState }),
+    })
+    .where(eq(urls.id, urlId));
+}
+
+// ============ HELPERS ============
+// The API reports unknown values as e.g. CRAWLING_USER_AGENT_UNSPECIFIED
+function specified(value: string | null | undefined): string | null {
+  return value && !value.endsWith('_UNSPECIFIED') ? value : null;
+}
+
+async function updateIndexedCounts(projectId: string): Promise<void> {
+  const stats = await db.execute(sql`
+    SELECT
+      COUNT(*) FILTER (WHERE google_status = 'INDEXED') as indexed,
+      COUNT(*) FILTER (WHERE google_status IN ('DISCOVERED', 'QUEUED') AND excluded_at IS NULL) as pending
+    FROM urls
+    WHERE project_id = ${projectId}
+      AND removed_at IS NULL
+  `);
+  
+  const { indexed, pending } = stats.rows[0] as any;
+  
+  await db
+    .update(projects)
+    .set({
+      indexedUrls: Number(indexed),
+      pendingUrls: Number(pending),
+      updatedAt: new Date(),
+    })
+    .where(eq(projects.id, projectId));
+}
+
+// ============ PERIODIC SWEEP ============
+// Only projects with a Google service account can be inspected
+async function fanOutSweep() {
+  // Projects with several Google credentials appear once; projects whose only
+  // credentials are known to be invalid would just fail
+  const activeProjects = await db
+    .selectDistinct({ id: projects.id })
+    .from(projects)
+    .innerJoin(
+      credentials,
+      and(
+        eq(credentials.projectId, projects.id),
+        eq(credentials.engine, 'GOOGLE'),
+        sql`${credentials.isValid} IS NOT FALSE`
+      )
+    )
+    .where(eq(projects.isActive, true));
+  
+  // One job per project and quota day, so a sweep that runs twice adds no
+  // duplicates; kept failed jobs hold the id only until the next day
+  const day = quotaDay('GOOGLE').toISOString().slice(0, 10);
+  await urlInspectionQueue.addBulk(
+    activeProjects.map(project => ({
+      name: 'inspect',
+      data: { projectId: project.id },
+      opts: { jobId: `inspect-${project.id}-${day}`, attempts: 2, removeOnComplete: true, removeOnFail: 100 },
+    }))
+  );
+  
+  logger.info({ projectCount: activeProjects.length }, 'Queued URL inspections');
+  
+  return { projectCount: activeProjects.length };
+}
+
+// Repeatable jobs are keyed by name and pattern, so every replica can register it
+urlInspectionQueue
+  .add('sweep', {}, { repeat: { pattern: CONFIG.SWEEP_CRON }, removeOnComplete: true })
+  .catch(error => logger.error({ error }, 'Failed to schedule URL inspections'));
+
+export default urlInspectorWorker;
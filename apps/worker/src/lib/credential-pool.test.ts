@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCredentialPool, PooledCredential } from './credential-pool';
+
+const day = new Date('2026-01-15T00:00:00.000Z');
+
+function member(id: string, dailyQuota: number, usedToday: number): PooledCredential {
+  return {
+    id,
+    label: id,
+    accountEmail: `${id}@example.iam.gserviceaccount.com`,
+    dailyQuota,
+    usedToday,
+    submitted: 0,
+    sent: 0,
+    auth: null as unknown as PooledCredential['auth'],
+  };
+}
+
+describe('createCredentialPool', () => {
+  it('picks the credential with the most quota left', () => {
+    const pool = createCredentialPool([member('a', 200, 150), member('b', 200, 20), member('c', 100, 0)], 'LEAST_USED', day);
+
+    assert.equal(pool.pick()?.id, 'b');
+    assert.equal(pool.remaining, 50 + 180 + 100);
+  });
+
+  it('rotates through credentials still in rotation', () => {
+    const b = member('b', 200, 0);
+    const pool = createCredentialPool([member('a', 200, 0), b, member('c', 200, 0)], 'ROUND_ROBIN', day);
+    pool.reportFailure(b, 429);
+
+    assert.deepEqual([pool.pick()?.id, pool.pick()?.id, pool.pick()?.id], ['a', 'c', 'a']);
+  });
+
+  it('retires a credential on 429 and after repeated 403s', () => {
+    const a = member('a', 200, 0);
+    const b = member('b', 200, 0);
+    const pool = createCredentialPool([a, b], 'LEAST_USED', day);
+
+    pool.reportFailure(a, 429);
+    assert.equal(pool.pick()?.id, 'b');
+    assert.equal(pool.remaining, 200);
+
+    pool.reportFailure(b, 403);
+    pool.reportFailure(b, 403);
+    assert.equal(pool.pick()?.id, 'b');
+    pool.reportFailure(b, 403);
+    assert.equal(pool.pick(), null);
+    assert.equal(pool.remaining, 0);
+  });
+
+  it('resets the 403 count after a success', () => {
+    const a = member('a', 200, 0);
+    const pool = createCredentialPool([a], 'LEAST_USED', day);
+
+    pool.reportFailure(a, 403);
+    pool.reportFailure(a, 403);
+    pool.reportSuccess(a);
+    pool.reportFailure(a, 403);
+
+    assert.equal(pool.pick()?.id, 'a');
+    assert.equal(a.submitted, 1);
+  });
+
+  it('still picks credentials whose publish quota is spent', () => {
+    const pool = createCredentialPool([member('a', 200, 200), member('b', 100, 120)], 'ROUND_ROBIN', day);
+
+    assert.equal(pool.remaining, 0);
+    assert.deepEqual([pool.pick()?.id, pool.pick()?.id], ['a', 'b']);
+  });
+});
@@ -0,0 +1,173 @@
+import { db } from '@repo/db';
+import { credentials } from '@repo/db/schema';
+import { eq } from 'drizzle-orm';
+import { listGoogleCredentials, decryptServiceAccount, createGoogleAuth, GOOGLE_SCOPES } from './google-auth';
+import { getAccountUsage, reserveAccountQuota, settleAccountQuota } from './quota';
+
+// ============ TYPES ============
+export type CredentialSelection = 'LEAST_USED' | 'ROUND_ROBIN';
+
+export interface PooledCredential {
+  id: string;
+  label: string;
+  accountEmail: string; // Quota is tracked per service account, across projects
+  dailyQuota: number;
+  usedToday: number; // Last known usage, including reservations; only guides selection
+  submitted: number; // Successful requests in this run
+  sent: number; // Requests that reached Google in this run, for the per-project quota rows
+  auth: ReturnType<typeof createGoogleAuth>; // Scoped for the Indexing API
+}
+
+export interface Reservation {
+  credential: PooledCredential;
+  count: number; // Requests reserved, at most what was asked for
+}
+
+export interface CredentialPool {
+  readonly members: PooledCredential[];
+  readonly remaining: number; // Estimated quota left across credentials still in rotation
+  acquire(count: number, exclude?: ReadonlySet<string>): Promise<Reservation | null>;
+  pick(): PooledCredential | null; // Next in rotation, for requests outside the publish quota
+  settle(reservation: Reservation, sent: number): Promise<void>; // Hands back what was not sent
+  reportSuccess(credential: PooledCredential): void;
+  reportFailure(credential: PooledCredential, statusCode: number | undefined): void;
+}
+
+// ============ CONFIGURATION ============
+const DEFAULT_DAILY_QUOTA = 200; // Google's default per GCP project
+const MAX_CONSECUTIVE_DENIALS = 3; // 403s before a credential leaves the rotation
+
+// ============ LOADING ============
+/**
+ * The project's Google credentials with today's usage, authorized for the
+ * Indexing API. Two credentials holding the same service account share one
+ * allowance, so only the first is kept.
+ */
+export async function loadGoogleCredentialPool(
+  projectId: string,
+  day: Date,
+  selection: CredentialSelection = 'LEAST_USED'
+): Promise<CredentialPool> {
+  const rows = await listGoogleCredentials(projectId);
+  if (rows.length === 0) {
+    throw new Error('Google credentials not configured for this project');
+  }
+
+  const accounts = new Map<string, Omit<PooledCredential, 'usedToday'>>();
+  for (const row of rows) {
+    const serviceAccount = decryptServiceAccount(row);
+    const accountEmail = serviceAccount.client_email;
+
+    if (row.accountEmail !== accountEmail) {
+      await db
+        .update(credentials)
+        .set({ accountEmail })
+        .where(eq(credentials.id, row.id));
+    }
+    if (accounts.has(accountEmail)) continue;
+
+    accounts.set(accountEmail, {
+      id: row.id,
+      label: row.label ?? accountEmail,
+      accountEmail,
+      dailyQuota: row.dailyQuota ?? DEFAULT_DAILY_QUOTA,
+      submitted: 0,
+      sent: 0,
+      auth: createGoogleAuth(serviceAccount, [GOOGLE_SCOPES.INDEXING]),
+    });
+  }
+
+  const usage = await getAccountUsage([...accounts.keys()], 'INDEXING', day);
+  const members = [...accounts.values()].map(member => ({
+    ...member,
+    usedToday: usage.get(member.accountEmail) ?? 0,
+  }));
+
+  return createCredentialPool(members, selection, day);
+}
+
+// ============ SELECTION ============
+/**
+ * Hands out quota a batch at a time. LEAST_USED picks the credential with the
+ * most quota left today; ROUND_ROBIN rotates, starting with the least
+ * recently used. The grant itself comes from the shared service account row,
+ * which may hold less than the estimate when other jobs use the same account.
+ * A 429 takes a credential out of rotation for the rest of the run, and so do
+ * repeated 403s (a single 403 may be about the URL, not the account).
+ */
+export function createCredentialPool(
+  members: PooledCredential[],
+  selection: CredentialSelection,
+  day: Date
+): CredentialPool {
+  const retired = new Set<string>();
+  const denials = new Map<string, number>();
+  let cursor = 0;
+
+  // Requests outside the publish quota only need a credential in rotation
+  const available = (member: PooledCredential, exclude?: ReadonlySet<string>, publishing = true) =>
+    !retired.has(member.id) && !exclude?.has(member.id) && (!publishing || member.usedToday < member.dailyQuota);
+
+  const choose = (exclude?: ReadonlySet<string>, publishing = true): PooledCredential | null => {
+    if (selection === 'ROUND_ROBIN') {
+      for (let i = 0; i < members.length; i++) {
+        const member = members[(cursor + i) % members.length];
+        if (available(member, exclude, publishing)) {
+          cursor = (cursor + i + 1) % members.length;
+          return member;
+        }
+      }
+      return null;
+    }
+
+    let chosen: PooledCredential | null = null;
+    for (const member of members) {
+      if (!available(member, exclude, publishing)) continue;
+      if (!chosen || member.dailyQuota - member.usedToday > chosen.dailyQuota - chosen.usedToday) {
+        chosen = member;
+      }
+    }
+    return chosen;
+  };
+
+  return {
+    members,
+    get remaining() {
+      return members
+        .filter(member => !retired.has(member.id))
+        .reduce((sum, member) => sum + Math.max(member.dailyQuota - member.usedToday, 0), 0);
+    },
+    async acquire(count, exclude) {
+      for (let chosen = choose(exclude); chosen; chosen = choose(exclude)) {
+        const granted = await reserveAccountQuota(chosen.accountEmail, 'INDEXING', day, chosen.dailyQuota, count);
+        if (granted > 0) {
+          chosen.usedToday += granted;
+          return { credential: chosen, count: granted };
+        }
+        chosen.usedToday = chosen.dailyQuota; // Spent by other jobs sharing the account
+      }
+      return null;
+    },
+    pick() {
+      return choose(undefined, false);
+    },
+    async settle({ credential, count }, sent) {
+      credential.usedToday -= count - sent;
+      credential.sent += sent;
+      await settleAccountQuota(credential.accountEmail, 'INDEXING', day, count, sent);
+    },
+    reportSuccess(credential) {
+      credential.submitted++;
+      denials.delete(credential.id);
+    },
+    reportFailure(credential, statusCode) {
+      if (statusCode === 429) {
+        retired.add(credential.id);
+      } else if (statusCode === 403) {
+        const count = (denials.get(credential.id) ?? 0) + 1;
+        denials.set(credential.id, count);
+        if (count >= MAX_CONSECUTIVE_DENIALS) retired.add(credential.id);
+      }
+    },
+  };
+}
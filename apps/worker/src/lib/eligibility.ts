@@ -0,0 +1,192 @@
+import { db } from '@repo/db';
+import { urls, submissions, ProjectSettings, SubmissionSkipReason } from '@repo/db/schema';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { compileUrlRules, UrlRuleSet } from '@repo/crawler/url-rules';
+import { metrics } from './metrics';
+
+// ============ TYPES ============
+export type SubmissionEngine = 'GOOGLE' | 'INDEXNOW';
+
+export interface EligibilityOptions {
+  settings: ProjectSettings | null | undefined;
+  force?: boolean; // Skips the resubmission checks (RECENTLY_SUBMITTED, UNCHANGED) only
+}
+
+export interface EligibilityResult {
+  eligible: { id: string; loc: string }[];
+  skipped: { urlId: string; reason: SubmissionSkipReason }[];
+}
+
+interface Candidate {
+  id: string;
+  loc: string;
+  removedAt: Date | null;
+  canonicalUrlId: string | null;
+  robotsBlocked: boolean;
+  lastHealthCheckAt: Date | null;
+  finalStatus: number | null;
+  redirected: boolean;
+  noindex: string | null;
+  lastmod: Date | null;
+  submittedAt: Date | null;
+}
+
+// ============ CONFIGURATION ============
+const RESUBMIT_COOLDOWN_HOURS = 24;
+
+// ============ ELIGIBILITY ============
+/**
+ * Splits the URLs of a URL_UPDATED submission into those worth sending and
+ * those that would waste quota, with the first reason that applies. What the
+ * health check and scans know about a URL is trusted as is; URLs never checked
+ * pass the HTTP checks.
+ */
+export async function checkEligibility(
+  engine: SubmissionEngine,
+  urlIds: string[],
+  options: EligibilityOptions
+): Promise<EligibilityResult> {
+  if (urlIds.length === 0) return { eligible: [], skipped: [] };
+
+  const rows = await db
+    .select({
+      id: urls.id,
+      loc: urls.loc,
+      removedAt: urls.removedAt,
+      canonicalUrlId: urls.canonicalUrlId,
+      robotsTxtState: urls.robotsTxtState,
+      bingStatus: urls.bingStatus,
+      lastHealthCheckAt: urls.lastHealthCheckAt,
+      finalStatus: urls.finalStatus,
+      redirectChain: urls.redirectChain,
+      noindex: urls.noindex,
+      lastmod: urls.lastmod,
+      googleSubmittedAt: urls.googleSubmittedAt,
+      bingSubmittedAt: urls.bingSubmittedAt,
+    })
+    .from(urls)
+    .where(inArray(urls.id, urlIds));
+
+  // Rules are evaluated now so changes since the last scan apply
+  const urlRules = compileUrlRules(options.settings);
+  const now = Date.now();
+  const result: EligibilityResult = { eligible: [], skipped: [] };
+
+  for (const row of rows) {
+    // IndexNow results are tracked in the bing* columns
+    const candidate: Candidate = {
+      ...row,
+      robotsBlocked: engine === 'GOOGLE'
+        ? row.robotsTxtState === 'DISALLOWED'
+        : row.bingStatus === 'BLOCKED_ROBOTS',
+      redirected: row.redirectChain !== null,
+      submittedAt: engine === 'GOOGLE' ? row.googleSubmittedAt : row.bingSubmittedAt,
+    };
+
+    const reason = skipReason(candidate, urlRules, options.force ?? false, now);
+    if (reason) {
+      result.skipped.push({ urlId: row.id, reason });
+    } else {
+      result.eligible.push({ id: row.id, loc: row.loc });
+    }
+  }
+
+  return result;
+}
+
+function skipReason(
+  url: Candidate,
+  urlRules: UrlRuleSet,
+  force: boolean,
+  now: number
+): SubmissionSkipReason | null {
+  if (url.removedAt) return 'REMOVED';
+  if (urlRules.evaluate(url.loc).excluded) return 'EXCLUDED';
+  if (url.canonicalUrlId) return 'DUPLICATE'; // Would spend quota on the canonical row's page
+  if (url.robotsBlocked) return 'BLOCKED_ROBOTS';
+
+  if (url.lastHealthCheckAt) {
+    // 429 only means the check was throttled
+    if (url.finalStatus === null || (url.finalStatus >= 400 && url.finalStatus !== 429)) return 'HTTP_ERROR';
+    if (url.redirected) return 'REDIRECT';
+    if (url.noindex) return 'NOINDEX';
+  }
+
+  if (force || !url.submittedAt) return null;
+  if (now - url.submittedAt.getTime() < RESUBMIT_COOLDOWN_HOURS * 60 * 60 * 1000) return 'RECENTLY_SUBMITTED';
+  if (!isChangedSinceSubmission(url.lastmod, url.submittedAt)) return 'UNCHANGED';
+  return null;
+}
+
+// ============ RESUBMISSION ============
+// A URL that was never submitted is always eligible. After that, only a
+// lastmod later than the last submission justifies sending it again; URLs
+// without a lastmod give no evidence of change and are not resubmitted.
+export function isChangedSinceSubmission(lastmod: Date | null, submittedAt: Date | null): boolean {
+  if (!submittedAt) return true;
+  return lastmod !== null && lastmod.getTime() > submittedAt.getTime();
+}
+
+// ============ SKIPPED SUBMISSIONS ============
+// Skipped URLs get a CANCELLED submission row so users can see why they were
+// not sent; they consume no quota. A URL whose latest submission row already
+// records the same skip gets no new one, so runs and retries that skip it
+// again do not pile up rows.
+export async function recordSkippedSubmissions(
+  projectId: string,
+  engine: SubmissionEngine,
+  action: string,
+  skipped: EligibilityResult['skipped']
+): Promise<void> {
+  if (skipped.length === 0) return;
+
+  const latest = await db
+    .selectDistinctOn([submissions.urlId], {
+      urlId: submissions.urlId,
+      status: submissions.status,
+      skipReason: submissions.skipReason,
+    })
+    .from(submissions)
+    .where(
+      and(
+        eq(submissions.projectId, projectId),
+        eq(submissions.engine, engine),
+        eq(submissions.action, action),
+        inArray(submissions.urlId, skipped.map(s => s.urlId))
+      )
+    )
+    .orderBy(submissions.urlId, desc(submissions.scheduledAt));
+  const alreadyRecorded = new Map(
+    latest
+      .filter(row => row.status === 'CANCELLED' && row.skipReason)
+      .map(row => [row.urlId, row.skipReason])
+  );
+  const newSkips = skipped.filter(({ urlId, reason }) => alreadyRecorded.get(urlId) !== reason);
+
+  if (newSkips.length > 0) {
+    const now = new Date();
+    await db.insert(submissions).values(
+      newSkips.map(({ urlId, reason }) => ({
+        urlId,
+        projectId,
+        engine,
+        action,
+        status: 'CANCELLED' as const,
+        skipReason: reason,
+        completedAt: now,
+      }))
+    );
+  }
+
+  for (const [reason, count] of countByReason(skipped)) {
+    metrics.counter('submissions_skipped_total', count, { engine, reason });
+  }
+}
+
+export function countByReason(skipped: EligibilityResult['skipped']): Map<SubmissionSkipReason, number> {
+  const counts = new Map<SubmissionSkipReason, number>();
+  for (const { reason } of skipped) {
+    counts.set(reason, (counts.get(reason) ?? 0) + 1);
+  }
+  return counts;
+}
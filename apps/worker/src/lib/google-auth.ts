@@ -0,0 +1,75 @@
+import { google } from 'googleapis';
+import { db } from '@repo/db';
+import { credentials } from '@repo/db/schema';
+import { eq, and, sql, asc } from 'drizzle-orm';
+import { decryptCredentials } from './encryption';
+
+// ============ TYPES ============
+type Credential = typeof credentials.$inferSelect;
+
+export interface ServiceAccount {
+  client_email: string;
+  private_key: string;
+  [key: string]: unknown;
+}
+
+// ============ SCOPES ============
+export const GOOGLE_SCOPES = {
+  INDEXING: 'https://www.googleapis.com/auth/indexing',
+  SEARCH_CONSOLE: 'https://www.googleapis.com/auth/webmasters.readonly',
+  SEARCH_CONSOLE_WRITE: 'https://www.googleapis.com/auth/webmasters', // Submitting sitemaps
+} as const;
+
+// ============ AUTH ============
+// Each caller asks for the scopes it needs; the same service account serves
+// every Google API.
+export function createGoogleAuth(serviceAccount: ServiceAccount, scopes: string[]) {
+  return new google.auth.GoogleAuth({
+    credentials: serviceAccount,
+    scopes,
+  });
+}
+
+/** Auth for APIs that are not pooled: any one of the project's Google credentials will do. */
+export async function getGoogleAuth(projectId: string, scopes: string[]) {
+  return (await getGoogleAccount(projectId, scopes)).auth;
+}
+
+/** Like getGoogleAuth, with the service account email for per-account limits. */
+export async function getGoogleAccount(projectId: string, scopes: string[]) {
+  const [credential] = await listGoogleCredentials(projectId);
+
+  if (!credential) {
+    throw new Error('Google credentials not configured for this project');
+  }
+
+  const serviceAccount = decryptServiceAccount(credential);
+  return {
+    accountEmail: serviceAccount.client_email,
+    auth: createGoogleAuth(serviceAccount, scopes),
+  };
+}
+
+/** Usable Google credentials, least recently used first. */
+export async function listGoogleCredentials(projectId: string): Promise<Credential[]> {
+  return db
+    .select()
+    .from(credentials)
+    .where(
+      and(
+        eq(credentials.projectId, projectId),
+        eq(credentials.engine, 'GOOGLE'),
+        sql`${credentials.isValid} IS NOT FALSE`
+      )
+    )
+    .orderBy(sql`${credentials.lastUsedAt} ASC NULLS FIRST`, asc(credentials.createdAt));
+}
+
+export function decryptServiceAccount(credential: Credential): ServiceAccount {
+  const serviceAccountJson = decryptCredentials(
+    credential.encryptedData,
+    credential.iv,
+    credential.authTag
+  );
+  return JSON.parse(serviceAccountJson);
+}
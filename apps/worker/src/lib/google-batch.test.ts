@@ -0,0 +1,88 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseBatchResponse, sendIndexingBatch } from './google-batch';
+
+const realFetch = globalThis.fetch;
+const auth = { getAccessToken: async () => 'token' };
+const publish = (url: string) => ({
+  method: 'POST' as const,
+  path: '/v3/urlNotifications:publish',
+  body: { url, type: 'URL_UPDATED' },
+});
+
+function multipart(boundary: string, parts: { id: number; status: number; body: unknown }[]): string {
+  return [
+    ...parts.map(part => [
+      `--${boundary}`,
+      'Content-Type: application/http',
+      `Content-ID: <response-item${part.id}>`,
+      '',
+      `HTTP/1.1 ${part.status} OK`,
+      'Content-Type: application/json; charset=UTF-8',
+      '',
+      JSON.stringify(part.body),
+    ].join('\r\n')),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+describe('parseBatchResponse', () => {
+  it('matches parts by Content-ID and marks missing ones as not sent', () => {
+    const text = multipart('b1', [
+      { id: 2, status: 429, body: { error: { message: 'Quota exceeded' } } },
+      { id: 0, status: 200, body: { urlNotificationMetadata: {} } },
+    ]);
+
+    const parts = parseBatchResponse(text, 'multipart/mixed; boundary=b1', 3);
+
+    assert.deepEqual(parts.map(part => part.status), [200, 0, 429]);
+    assert.equal(parts[0].error, null);
+    assert.equal(parts[1].error, 'Missing from batch response');
+    assert.equal(parts[2].error, 'Quota exceeded');
+  });
+
+  it('rejects responses that are not multipart', () => {
+    assert.throws(() => parseBatchResponse('{}', 'application/json', 1), /not multipart/);
+  });
+});
+
+describe('sendIndexingBatch', () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('throws with the HTTP status when the whole batch is refused', async () => {
+    globalThis.fetch = (async () => new Response(
+      JSON.stringify({ error: { message: 'Rate limited' } }),
+      { status: 429, headers: { 'content-type': 'application/json' } }
+    )) as typeof fetch;
+
+    await assert.rejects(
+      sendIndexingBatch(auth, [publish('https://example.com/a'), publish('https://example.com/b')]),
+      (error: any) => error.code === 429 && /Rate limited/.test(error.message)
+    );
+  });
+
+  it('returns one result per call for a multipart response', async () => {
+    globalThis.fetch = (async () => new Response(
+      multipart('b2', [{ id: 0, status: 200, body: {} }, { id: 1, status: 403, body: { error: { message: 'Denied' } } }]),
+      { status: 200, headers: { 'content-type': 'multipart/mixed; boundary=b2' } }
+    )) as typeof fetch;
+
+    const parts = await sendIndexingBatch(auth, [publish('https://example.com/a'), publish('https://example.com/b')]);
+
+    assert.deepEqual(parts.map(part => part.status), [200, 403]);
+  });
+
+  it('refuses batches over the size limit before sending', async () => {
+    let requests = 0;
+    globalThis.fetch = (async () => {
+      requests++;
+      return new Response('');
+    }) as typeof fetch;
+
+    await assert.rejects(sendIndexingBatch(auth, Array.from({ length: 101 }, (_, i) => publish(`https://example.com/${i}`))));
+    assert.equal(requests, 0);
+  });
+});
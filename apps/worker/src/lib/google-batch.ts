@@ -0,0 +1,146 @@
+import { randomBytes } from 'crypto';
+
+// ============ TYPES ============
+export interface BatchRequestPart {
+  method: 'GET' | 'POST';
+  path: string; // e.g. /v3/urlNotifications:publish
+  body?: unknown;
+}
+
+export interface BatchResponsePart {
+  status: number; // 0 when the response had no part for the request
+  body: any;
+  error: string | null; // Message of a failed call
+}
+
+interface AccessTokenSource {
+  getAccessToken(): Promise<string | null | undefined>;
+}
+
+// ============ CONFIGURATION ============
+export const MAX_BATCH_SIZE = 100; // Google rejects larger batches
+const INDEXING_BATCH_URL = 'https://indexing.googleapis.com/batch';
+const REQUEST_TIMEOUT_MS = 60000;
+
+// ============ SENDING ============
+/**
+ * Sends up to MAX_BATCH_SIZE Indexing API calls in one multipart/mixed
+ * request and returns one result per call, in the order given. A failure of
+ * the batch as a whole (network, auth) throws; a failed call only fails its
+ * own part.
+ */
+export async function sendIndexingBatch(
+  auth: AccessTokenSource,
+  parts: BatchRequestPart[]
+): Promise<BatchResponsePart[]> {
+  if (parts.length > MAX_BATCH_SIZE) {
+    throw new Error(`A batch holds at most ${MAX_BATCH_SIZE} requests, got ${parts.length}`);
+  }
+
+  const token = await auth.getAccessToken();
+  const boundary = `batch_${randomBytes(12).toString('hex')}`;
+
+  const response = await fetch(INDEXING_BATCH_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': `multipart/mixed; boundary=${boundary}`,
+    },
+    body: buildBatchBody(parts, boundary),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw Object.assign(
+      new Error(`Batch request failed with HTTP ${response.status}: ${errorMessage(parseJson(text)) ?? text.slice(0, 200)}`),
+      { code: response.status }
+    );
+  }
+
+  return parseBatchResponse(text, response.headers.get('content-type') ?? '', parts.length);
+}
+
+// ============ ENCODING ============
+// Content-IDs are the part's index, so responses can be matched back even if
+// Google reorders them
+export function buildBatchBody(parts: BatchRequestPart[], boundary: string): string {
+  const lines: string[] = [];
+  parts.forEach((part, index) => {
+    const body = part.body === undefined ? '' : JSON.stringify(part.body);
+    lines.push(
+      `--${boundary}`,
+      'Content-Type: application/http',
+      `Content-ID: <item${index}>`,
+      '',
+      `${part.method} ${part.path}`,
+      'Content-Type: application/json',
+      'Accept: application/json',
+      `Content-Length: ${Buffer.byteLength(body)}`,
+      '',
+      body,
+    );
+  });
+  lines.push(`--${boundary}--`, '');
+  return lines.join('\r\n');
+}
+
+// ============ DECODING ============
+/** Splits a multipart/mixed batch response into `count` results, in request order. */
+export function parseBatchResponse(text: string, contentType: string, count: number): BatchResponsePart[] {
+  const boundary = /boundary="?([^";]+)"?/i.exec(contentType)?.[1];
+  if (!boundary) {
+    throw new Error(`Batch response is not multipart: ${contentType || 'no content type'}`);
+  }
+
+  const results: (BatchResponsePart | undefined)[] = new Array(count).fill(undefined);
+  const unmatched: BatchResponsePart[] = [];
+
+  for (const chunk of text.split(`--${boundary}`).slice(1)) {
+    if (chunk.startsWith('--')) break; // Closing delimiter
+
+    const [partHeaders, http = ''] = splitOnBlankLine(chunk.replace(/^\r?\n/, ''));
+    const [head, body] = splitOnBlankLine(http);
+    const status = Number(/^HTTP\/[\d.]+\s+(\d{3})/.exec(head)?.[1] ?? 0);
+    const json = parseJson(body.trim());
+    const result: BatchResponsePart = {
+      status,
+      body: json ?? body.trim(),
+      error: status >= 200 && status < 300 ? null : errorMessage(json) ?? `HTTP ${status}`,
+    };
+
+    // Google answers item<N> with response-item<N>
+    const index = Number(/Content-ID:\s*<?response-item(\d+)>?/i.exec(partHeaders)?.[1] ?? NaN);
+    if (Number.isInteger(index) && index < count && !results[index]) {
+      results[index] = result;
+    } else {
+      unmatched.push(result);
+    }
+  }
+
+  return results.map(result => result ?? unmatched.shift() ?? {
+    status: 0,
+    body: null,
+    error: 'Missing from batch response',
+  });
+}
+
+// ============ HELPERS ============
+function splitOnBlankLine(text: string): [string, string] {
+  const match = /\r?\n\r?\n/.exec(text);
+  return match
+    ? [text.slice(0, match.index), text.slice(match.index + match[0].length)]
+    : [text, ''];
+}
+
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+function errorMessage(body: any): string | null {
+  return typeof body?.error?.message === 'string' ? body.error.message : null;
+}
@@ -0,0 +1,54 @@
+import { db } from '@repo/db';
+import { jobs } from '@repo/db/schema';
+import { eq, sql } from 'drizzle-orm';
+
+// ============ ATOMIC COUNTER UPDATES ============
+// Several workers (and replicas) report into the same `jobs` row, so counters
+// are incremented in SQL instead of read-modify-write in application code.
+export async function incrementJobCounters(
+  jobId: string,
+  counters: Record<string, number>
+): Promise<void> {
+  const entries = Object.entries(counters).filter(([, value]) => value !== 0);
+  if (entries.length === 0) return;
+
+  const pairs = entries.map(
+    ([key, value]) => sql`${key}::text, COALESCE((${jobs.metadata}->>${key})::int, 0) + ${value}`
+  );
+
+  await db
+    .update(jobs)
+    .set({
+      metadata: sql`COALESCE(${jobs.metadata}, '{}'::jsonb) || jsonb_build_object(${sql.join(pairs, sql`, `)})`,
+    })
+    .where(eq(jobs.id, jobId));
+}
+
+// ============ BOUNDED LIST APPENDS ============
+// Lists such as failed sitemaps are capped so a broken site cannot bloat the
+// row; the matching counter keeps the true total.
+const MAX_LIST_ITEMS = 200;
+
+export async function appendJobMetadataItems(
+  jobId: string,
+  key: string,
+  items: Record<string, unknown>[]
+): Promise<void> {
+  if (items.length === 0) return;
+
+  const list = sql`COALESCE(${jobs.metadata}->${key}, '[]'::jsonb) || ${JSON.stringify(items.slice(0, MAX_LIST_ITEMS))}::jsonb`;
+
+  await db
+    .update(jobs)
+    .set({
+      metadata: sql`COALESCE(${jobs.metadata}, '{}'::jsonb) || jsonb_build_object(
+        ${key}::text,
+        (
+          SELECT COALESCE(jsonb_agg(item ORDER BY position), '[]'::jsonb)
+          FROM jsonb_array_elements(${list}) WITH ORDINALITY AS entries(item, position)
+          WHERE position <= ${MAX_LIST_ITEMS}
+        )
+      )`,
+    })
+    .where(eq(jobs.id, jobId));
+}
@@ -0,0 +1,109 @@
+import { db } from '@repo/db';
+import { urls } from '@repo/db/schema';
+import { sql } from 'drizzle-orm';
+import { sendIndexingBatch, BatchRequestPart, MAX_BATCH_SIZE } from './google-batch';
+import { waitForMinuteSlots } from './rate-limit';
+import { logger } from './logger';
+
+// ============ TYPES ============
+export interface MetadataAccount {
+  accountEmail: string; // Read quota is per service account
+  auth: { getAccessToken(): Promise<string | null | undefined> };
+}
+
+export interface NotificationHistorySync {
+  synced: number; // Google returned a notification history
+  neverNotified: number; // Google has no notification for the URL
+  failed: number;
+}
+
+interface NotificationHistory {
+  urlId: string;
+  latestUpdateAt: string | null;
+  latestRemoveAt: string | null;
+}
+
+// ============ CONFIGURATION ============
+const METADATA_PER_MINUTE = 180; // getMetadata quota, separate from publish
+
+// ============ SYNC ============
+/**
+ * Reads the latest URL_UPDATED / URL_DELETED notification Google received for
+ * each URL, from this tool or any other, and stores the times. A notification
+ * newer than our own record becomes the URL's last submission, so the
+ * eligibility check treats it like one we sent. Server errors leave the URLs
+ * unchecked; auth and quota errors are thrown.
+ */
+export async function syncNotificationHistory(
+  account: MetadataAccount,
+  records: { id: string; loc: string }[]
+): Promise<NotificationHistorySync> {
+  const counts: NotificationHistorySync = { synced: 0, neverNotified: 0, failed: 0 };
+
+  for (let i = 0; i < records.length; i += MAX_BATCH_SIZE) {
+    const batch = records.slice(i, i + MAX_BATCH_SIZE);
+    const parts: BatchRequestPart[] = batch.map(record => ({
+      method: 'GET',
+      path: `/v3/urlNotifications/metadata?url=${encodeURIComponent(record.loc)}`,
+    }));
+
+    await waitForMinuteSlots(`notification-metadata:${account.accountEmail}`, METADATA_PER_MINUTE, parts.length);
+
+    let responses;
+    try {
+      responses = await sendIndexingBatch(account.auth, parts);
+    } catch (error: any) {
+      if (typeof error.code === 'number' && error.code < 500) throw error;
+      logger.warn({ urlCount: batch.length, error: error.message }, 'Notification metadata batch failed');
+      counts.failed += batch.length;
+      continue;
+    }
+
+    const histories: NotificationHistory[] = [];
+    batch.forEach((record, index) => {
+      const response = responses[index];
+      if (response.status === 200) {
+        counts.synced++;
+        histories.push({
+          urlId: record.id,
+          latestUpdateAt: response.body?.latestUpdate?.notifyTime ?? null,
+          latestRemoveAt: response.body?.latestRemove?.notifyTime ?? null,
+        });
+      } else if (response.status === 404) {
+        counts.neverNotified++;
+        histories.push({ urlId: record.id, latestUpdateAt: null, latestRemoveAt: null });
+      } else {
+        counts.failed++;
+      }
+    });
+
+    await storeHistories(histories);
+  }
+
+  return counts;
+}
+
+async function storeHistories(histories: NotificationHistory[]): Promise<void> {
+  if (histories.length === 0) return;
+
+  const values = sql.join(
+    histories.map(h => sql`(${h.urlId}::uuid, ${h.latestUpdateAt}::timestamptz, ${h.latestRemoveAt}::timestamptz)`),
+    sql`, `
+  );
+
+  // GREATEST ignores NULLs; a URL someone else notified is no longer merely discovered
+  await db.execute(sql`
+    UPDATE ${urls} AS u
+    SET google_latest_update_at = v.latest_update_at,
+        google_latest_remove_at = v.latest_remove_at,
+        google_notifications_checked_at = NOW(),
+        google_submitted_at = GREATEST(u.google_submitted_at, v.latest_update_at),
+        google_status = CASE
+          WHEN v.latest_update_at IS NOT NULL AND u.google_status IN ('DISCOVERED', 'QUEUED')
+            THEN 'SUBMITTED'::indexing_status
+          ELSE u.google_status
+        END
+    FROM (VALUES ${values}) AS v(id, latest_update_at, latest_remove_at)
+    WHERE u.id = v.id
+  `);
+}
@@ -0,0 +1,10 @@
+import { Queue } from 'bullmq';
+import { redis } from './redis';
+
+// ============ QUEUES ============
+// Producers for queues that are fed by other workers rather than by the scheduler.
+export const googleSubmitterQueue = new Queue('google-submitter', { connection: redis });
+export const sitemapDiscoveryQueue = new Queue('sitemap-discovery', { connection: redis });
+export const urlHealthCheckQueue = new Queue('url-health-check', { connection: redis });
+export const urlInspectionQueue = new Queue('url-inspection', { connection: redis });
+export const gscSitemapSyncQueue = new Queue('gsc-sitemap-sync', { connection: redis });
@@ -0,0 +1,22 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { quotaDay } from './quota';
+
+describe('quotaDay', () => {
+  it('rolls Google quota over at midnight Pacific time', () => {
+    // 07:59 UTC is still the previous evening in Los Angeles (PST, UTC-8)
+    assert.equal(quotaDay('GOOGLE', new Date('2026-01-15T07:59:59Z')).toISOString(), '2026-01-14T00:00:00.000Z');
+    assert.equal(quotaDay('GOOGLE', new Date('2026-01-15T08:00:00Z')).toISOString(), '2026-01-15T00:00:00.000Z');
+  });
+
+  it('follows daylight saving time', () => {
+    // PDT is UTC-7
+    assert.equal(quotaDay('GOOGLE', new Date('2026-07-15T06:59:59Z')).toISOString(), '2026-07-14T00:00:00.000Z');
+    assert.equal(quotaDay('GOOGLE', new Date('2026-07-15T07:00:00Z')).toISOString(), '2026-07-15T00:00:00.000Z');
+  });
+
+  it('uses UTC days for engines without a published reset time', () => {
+    assert.equal(quotaDay('INDEXNOW', new Date('2026-01-15T23:59:59Z')).toISOString(), '2026-01-15T00:00:00.000Z');
+    assert.equal(quotaDay('INDEXNOW', new Date('2026-01-16T00:00:00Z')).toISOString(), '2026-01-16T00:00:00.000Z');
+  });
+});
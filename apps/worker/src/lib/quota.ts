@@ -0,0 +1,118 @@
+import { db } from '@repo/db';
+import { serviceAccountQuota, QuotaApi } from '@repo/db/schema';
+import { eq, and, sql, inArray } from 'drizzle-orm';
+
+// ============ QUOTA DAYS ============
+// Google resets its API quotas at midnight Pacific time. IndexNow publishes no
+// reset time, so its counters roll over at midnight UTC.
+const QUOTA_TIMEZONES: Record<string, string> = {
+  GOOGLE: 'America/Los_Angeles',
+};
+
+/** The quota day `now` falls in, as midnight UTC of that calendar date. */
+export function quotaDay(engine: string, now: Date = new Date()): Date {
+  const timeZone = QUOTA_TIMEZONES[engine] ?? 'UTC';
+  // en-CA formats as YYYY-MM-DD
+  const day = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .format(now);
+  return new Date(`${day}T00:00:00.000Z`);
+}
+
+// ============ SERVICE ACCOUNT RESERVATIONS ============
+/** Requests used or reserved today, by quota key (service account email or property). */
+export async function getAccountUsage(
+  quotaKeys: string[],
+  api: QuotaApi,
+  day: Date
+): Promise<Map<string, number>> {
+  if (quotaKeys.length === 0) return new Map();
+
+  const rows = await db
+    .select({
+      quotaKey: serviceAccountQuota.quotaKey,
+      used: serviceAccountQuota.used,
+      reserved: serviceAccountQuota.reserved,
+    })
+    .from(serviceAccountQuota)
+    .where(
+      and(
+        inArray(serviceAccountQuota.quotaKey, quotaKeys),
+        eq(serviceAccountQuota.api, api),
+        eq(serviceAccountQuota.date, day)
+      )
+    );
+
+  return new Map(rows.map(row => [row.quotaKey, row.used + row.reserved]));
+}
+
+/**
+ * Reserves up to `count` requests of the key's allowance and returns how
+ * many were granted (0 when it is spent). The row lock makes concurrent jobs,
+ * in any replica and for any project sharing the account, queue up here
+ * instead of all reading the same remaining quota.
+ */
+export async function reserveAccountQuota(
+  quotaKey: string,
+  api: QuotaApi,
+  day: Date,
+  limit: number,
+  count: number
+): Promise<number> {
+  if (count <= 0) return 0;
+
+  await db
+    .insert(serviceAccountQuota)
+    .values({ quotaKey, api, date: day, limit })
+    .onConflictDoNothing();
+
+  const result = await db.execute(sql`
+    WITH current AS (
+      SELECT id, LEAST(${count}, ${limit} - used - reserved) AS granted
+      FROM ${serviceAccountQuota}
+      WHERE quota_key = ${quotaKey}
+        AND api = ${api}
+        AND date = ${day.toISOString()}::timestamp
+      FOR UPDATE
+    )
+    UPDATE ${serviceAccountQuota} AS q
+    SET reserved = q.reserved + current.granted,
+        "limit" = ${limit},
+        updated_at = NOW()
+    FROM current
+    WHERE q.id = current.id
+      AND current.granted > 0
+    RETURNING current.granted
+  `);
+
+  return Number((result.rows[0] as any)?.granted ?? 0);
+}
+
+/**
+ * Turns a reservation into usage: `used` of the `reserved` requests count
+ * against the quota and the rest is handed back. Reservations a crashed
+ * worker never settled expire with the quota day.
+ */
+export async function settleAccountQuota(
+  quotaKey: string,
+  api: QuotaApi,
+  day: Date,
+  reserved: number,
+  used: number
+): Promise<void> {
+  if (reserved <= 0 && used <= 0) return;
+
+  await db
+    .update(serviceAccountQuota)
+    .set({
+      used: sql`${serviceAccountQuota.used} + ${used}`,
+      reserved: sql`GREATEST(${serviceAccountQuota.reserved} - ${reserved}, 0)`,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(serviceAccountQuota.quotaKey, quotaKey),
+        eq(serviceAccountQuota.api, api),
+        eq(serviceAccountQuota.date, day)
+      )
+    );
+}
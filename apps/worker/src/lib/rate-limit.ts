@@ -0,0 +1,21 @@
+import { redis } from './redis';
+
+// ============ PER-MINUTE WINDOWS ============
+/**
+ * Waits until `count` more requests fit into `limit` per clock minute for
+ * `key`, across every worker and replica. Requests are counted in a Redis key
+ * that expires with the minute; a window that would overflow is left for the
+ * next one.
+ */
+export async function waitForMinuteSlots(key: string, limit: number, count: number = 1): Promise<void> {
+  for (;;) {
+    const minute = Math.floor(Date.now() / 60000);
+    const windowKey = `rate:${key}:${minute}`;
+    const total = await redis.incrby(windowKey, count);
+    if (total === count) {
+      await redis.expire(windowKey, 120);
+    }
+    if (total <= limit) return;
+    await new Promise(r => setTimeout(r, (minute + 1) * 60000 - Date.now()));
+  }
+}
@@ -0,0 +1,72 @@
+import { fetchRobotsTxt, robotsFromFetch, RobotsFetchResult, RobotsTxt } from '@repo/crawler/robots';
+import { redis } from './redis';
+
+// ============ CONFIGURATION ============
+const FRESH_SECONDS = 24 * 60 * 60; // Refetched about daily, like search engines do
+const STALE_SECONDS = 30 * 24 * 60 * 60; // Last good copy, used while the live file is unavailable
+const MEMORY_TTL_MS = 5 * 60 * 1000; // Parsed copies reused across batches of one scan
+const MAX_MEMORY_ENTRIES = 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+const USER_AGENT = 'SitemapIndexerPro/2.0 (Enterprise Edition; +https://indexerpro.io/bot)';
+
+interface CachedRobots {
+  fetchedAt: number;
+  result: RobotsFetchResult;
+}
+
+const robotsKey = (origin: string) => `robots:${origin}`;
+const parsed = new Map<string, { robots: RobotsTxt | null; expiresAt: number }>();
+
+// ============ LOOKUP ============
+/**
+ * Rules for each origin of `locs`, shared by all workers through Redis. null
+ * means the rules are unknown: robots.txt is unavailable and no earlier copy
+ * is cached. Malformed URLs have no origin and are left out.
+ */
+export async function getRobotsForUrls(locs: string[]): Promise<Map<string, RobotsTxt | null>> {
+  const origins = new Set<string>();
+  for (const loc of locs) {
+    const origin = originOf(loc);
+    if (origin) origins.add(origin);
+  }
+
+  const entries = await Promise.all(
+    [...origins].map(async origin => [origin, await getRobotsTxt(origin)] as const)
+  );
+  return new Map(entries);
+}
+
+export async function getRobotsTxt(origin: string): Promise<RobotsTxt | null> {
+  const memo = parsed.get(origin);
+  if (memo && memo.expiresAt > Date.now()) return memo.robots;
+
+  const robots = robotsFromFetch(await loadResult(origin));
+  if (parsed.size >= MAX_MEMORY_ENTRIES) parsed.clear();
+  parsed.set(origin, { robots, expiresAt: Date.now() + MEMORY_TTL_MS });
+  return robots;
+}
+
+export function originOf(loc: string): string | null {
+  try {
+    return new URL(loc).origin;
+  } catch {
+    return null;
+  }
+}
+
+// ============ HELPERS ============
+async function loadResult(origin: string): Promise<RobotsFetchResult> {
+  const raw = await redis.get(robotsKey(origin));
+  const cached: CachedRobots | null = raw ? JSON.parse(raw) : null;
+  if (cached && Date.now() - cached.fetchedAt < FRESH_SECONDS * 1000) {
+    return cached.result;
+  }
+
+  const result = await fetchRobotsTxt(origin, { userAgent: USER_AGENT, timeoutMs: REQUEST_TIMEOUT_MS });
+  if (result.status === 'UNAVAILABLE') {
+    return cached?.result ?? result;
+  }
+
+  await redis.set(robotsKey(origin), JSON.stringify({ fetchedAt: Date.now(), result }), 'EX', STALE_SECONDS);
+  return result;
+}
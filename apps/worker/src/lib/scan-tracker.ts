@@ -0,0 +1,109 @@
+import { redis } from './redis';
+
+// ============ TYPES ============
+export interface ScanProgress {
+  total: number; // Sitemaps queued under the scan so far (the scan job itself included)
+  processed: number; // Sitemaps finished, successfully or not
+  failed: number;
+  pending: number;
+  finished: boolean;
+}
+
+// ============ CONFIGURATION ============
+// Keys outlive any realistic scan; they only guard against leaks if a scan is abandoned.
+const SCAN_STATE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const scanKey = (jobId: string) => `scan:${jobId}`;
+const visitedKey = (jobId: string) => `scan:${jobId}:visited`;
+
+// ============ SITEMAP TREE COUNTERS ============
+// Every sitemap queued under a scan job is counted here and counted down when it
+// finishes, so whichever worker finishes the last sitemap can finalize the job.
+
+export async function startScan(jobId: string): Promise<void> {
+  // NX: a retried scan job must not count itself twice
+  const created = await redis.hsetnx(scanKey(jobId), 'pending', 1);
+  if (created) {
+    await redis
+      .multi()
+      .hset(scanKey(jobId), { total: 1, processed: 0, failed: 0 })
+      .expire(scanKey(jobId), SCAN_STATE_TTL_SECONDS)
+      .exec();
+  }
+}
+
+export async function addPendingSitemaps(jobId: string, count: number): Promise<void> {
+  if (count <= 0) return;
+  await redis
+    .multi()
+    .hincrby(scanKey(jobId), 'pending', count)
+    .hincrby(scanKey(jobId), 'total', count)
+    .expire(scanKey(jobId), SCAN_STATE_TTL_SECONDS)
+    .exec();
+}
+
+/** Counts one sitemap as finished and returns the tree totals after it. */
+export async function completePendingSitemap(
+  jobId: string,
+  options: { failed?: boolean } = {}
+): Promise<ScanProgress> {
+  const pipeline = redis
+    .multi()
+    .hincrby(scanKey(jobId), 'pending', -1)
+    .hincrby(scanKey(jobId), 'processed', 1);
+  if (options.failed) {
+    pipeline.hincrby(scanKey(jobId), 'failed', 1);
+  }
+  pipeline.hgetall(scanKey(jobId));
+
+  const results = await pipeline.exec();
+  const state = (results?.[results.length - 1]?.[1] ?? {}) as Record<string, string>;
+
+  const progress: ScanProgress = {
+    total: Number(state.total ?? 0),
+    processed: Number(state.processed ?? 0),
+    failed: Number(state.failed ?? 0),
+    pending: Number(state.pending ?? 0),
+    finished: Number(state.pending ?? 0) <= 0,
+  };
+
+  if (progress.finished) {
+    await redis.del(scanKey(jobId), visitedKey(jobId));
+  }
+
+  return progress;
+}
+
+// ============ VISITED SITEMAPS ============
+// One set per scan job, shared by all replicas, so each sitemap URL is queued
+// at most once no matter how many indexes list it.
+
+/** Marks URLs as visited; returns, per URL, whether this call claimed it first. */
+export async function claimSitemaps(jobId: string, sitemapUrls: string[]): Promise<boolean[]> {
+  if (sitemapUrls.length === 0) return [];
+
+  const pipeline = redis.multi();
+  for (const url of sitemapUrls) {
+    pipeline.sadd(visitedKey(jobId), url);
+  }
+  pipeline.expire(visitedKey(jobId), SCAN_STATE_TTL_SECONDS);
+
+  const results = await pipeline.exec();
+  return sitemapUrls.map((_, i) => Number(results?.[i]?.[1] ?? 0) === 1);
+}
+
+/**
+ * Gives back claims of sitemaps that were counted as pending but could not be
+ * queued, so a retry of the parent queues them instead of skipping them as
+ * duplicates.
+ */
+export async function releaseSitemaps(jobId: string, sitemapUrls: string[]): Promise<void> {
+  if (sitemapUrls.length === 0) return;
+
+  await redis
+    .multi()
+    .srem(visitedKey(jobId), ...sitemapUrls)
+    .hincrby(scanKey(jobId), 'pending', -sitemapUrls.length)
+    .hincrby(scanKey(jobId), 'total', -sitemapUrls.length)
+    .exec();
+}
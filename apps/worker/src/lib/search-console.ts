@@ -0,0 +1,15 @@
+import { ProjectSettings } from '@repo/db/schema';
+
+// ============ PROPERTIES ============
+// A domain property covers every protocol and subdomain, so it is the default
+export function searchConsoleProperty(domain: string, settings: ProjectSettings | null): string {
+  if (settings?.gscProperty) return settings.gscProperty;
+
+  let host = domain;
+  try {
+    host = new URL(domain).hostname;
+  } catch {
+    // Already a bare domain
+  }
+  return `sc-domain:${host.toLowerCase().replace(/^www\./, '')}`;
+}
@@ -0,0 +1,171 @@
+import type { SitemapLintCode, SitemapLintIssue, SitemapLintReport } from '@repo/db/schema';
+import type { ParsedUrl, ChildSitemap } from './sitemap-parser';
+
+// ============ PROTOCOL LIMITS ============
+// https://www.sitemaps.org/protocol.html
+const MAX_ENTRIES = 50_000;
+const MAX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+const MAX_EXAMPLES = 5; // Offending values kept per issue
+
+const CHANGEFREQ_VALUES = new Set(['always', 'hourly', 'daily', 'weekly', 'monthly', 'yearly', 'never']);
+
+// W3C Datetime: YYYY, YYYY-MM, YYYY-MM-DD, or a date with hh:mm[:ss[.s]] and a time zone
+const W3C_DATETIME = /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?)?)?$/;
+
+const ISSUE_DEFINITIONS: Record<SitemapLintCode, { severity: SitemapLintIssue['severity']; message: string }> = {
+  TOO_MANY_URLS: { severity: 'ERROR', message: `More than ${MAX_ENTRIES.toLocaleString('en-US')} entries; split the sitemap and list the parts in a sitemap index` },
+  TOO_LARGE: { severity: 'ERROR', message: 'Larger than 50 MB uncompressed; split the sitemap' },
+  XML_ERROR: { severity: 'ERROR', message: 'The XML is malformed and could not be parsed past this point' },
+  INVALID_ENCODING: { severity: 'ERROR', message: 'Content is not valid UTF-8' },
+  NOT_ABSOLUTE_URL: { severity: 'ERROR', message: '<loc> must be an absolute http(s) URL' },
+  HOST_MISMATCH: { severity: 'ERROR', message: "<loc> is on a different host than the project's domain" },
+  INVALID_LASTMOD: { severity: 'WARNING', message: '<lastmod> is not a W3C Datetime value; search engines may ignore it' },
+  INVALID_PRIORITY: { severity: 'WARNING', message: '<priority> must be a number between 0.0 and 1.0; it was ignored' },
+  INVALID_CHANGEFREQ: { severity: 'WARNING', message: '<changefreq> is not a valid value; it was ignored' },
+};
+
+// ============ VALUE PARSING ============
+// Shared with the upsert so that values the report flags are stored as NULL
+// instead of failing the insert.
+
+export function parsePriority(value?: string | null): number | null {
+  if (!value) return null;
+  const priority = Number(value);
+  return isNaN(priority) || priority < 0 || priority > 1 ? null : priority;
+}
+
+export function parseChangefreq(value?: string | null): string | null {
+  if (!value) return null;
+  const changefreq = value.toLowerCase();
+  return CHANGEFREQ_VALUES.has(changefreq) ? changefreq : null;
+}
+
+// ============ LINTER ============
+export interface SitemapLinter {
+  checkUrl: (url: ParsedUrl) => void;
+  checkChildSitemap: (child: ChildSitemap) => void;
+  /** Feeds decoded text as it is parsed, to check size and encoding. */
+  checkText: (text: string, bytes: number) => void;
+  recordXmlError: (error: Error) => void;
+  /** True once any content has been checked (i.e. the body was read). */
+  readonly hasContent: boolean;
+  report: (type: string) => SitemapLintReport;
+}
+
+export function createSitemapLinter(projectDomain: string): SitemapLinter {
+  const projectHost = normalizeHost(projectDomain);
+  const issues = new Map<SitemapLintCode, SitemapLintIssue>();
+  let entryCount = 0;
+  let uncompressedBytes = 0;
+  let hasContent = false;
+
+  const flag = (code: SitemapLintCode, example?: string) => {
+    let issue = issues.get(code);
+    if (!issue) {
+      issue = { code, ...ISSUE_DEFINITIONS[code], count: 0, examples: [] };
+      issues.set(code, issue);
+    }
+    issue.count++;
+    if (example !== undefined && issue.examples.length < MAX_EXAMPLES) {
+      issue.examples.push(example);
+    }
+  };
+
+  const checkLoc = (loc: string) => {
+    let parsed: URL;
+    try {
+      parsed = new URL(loc);
+    } catch {
+      flag('NOT_ABSOLUTE_URL', loc);
+      return;
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      flag('NOT_ABSOLUTE_URL', loc);
+      return;
+    }
+    if (projectHost && normalizeHost(parsed.hostname) !== projectHost) {
+      flag('HOST_MISMATCH', loc);
+    }
+  };
+
+  const checkEntry = (loc: string) => {
+    entryCount++;
+    if (entryCount === MAX_ENTRIES + 1) {
+      flag('TOO_MANY_URLS', String(entryCount));
+    }
+    checkLoc(loc);
+  };
+
+  return {
+    checkUrl(url) {
+      checkEntry(url.loc);
+      if (url.lastmod && !isValidLastmod(url.lastmod)) {
+        flag('INVALID_LASTMOD', `${url.loc}: ${url.lastmod}`);
+      }
+      if (url.priority && parsePriority(url.priority) === null) {
+        flag('INVALID_PRIORITY', `${url.loc}: ${url.priority}`);
+      }
+      if (url.changefreq && parseChangefreq(url.changefreq) === null) {
+        flag('INVALID_CHANGEFREQ', `${url.loc}: ${url.changefreq}`);
+      }
+    },
+    checkChildSitemap(child) {
+      checkEntry(child.loc);
+      if (child.lastmod && !isValidLastmod(child.lastmod)) {
+        flag('INVALID_LASTMOD', `${child.loc}: ${child.lastmod}`);
+      }
+    },
+    checkText(text, bytes) {
+      hasContent = true;
+      const before = uncompressedBytes;
+      uncompressedBytes += bytes;
+      if (before <= MAX_UNCOMPRESSED_BYTES && uncompressedBytes > MAX_UNCOMPRESSED_BYTES) {
+        flag('TOO_LARGE');
+      }
+      // The UTF-8 decoder substitutes U+FFFD for invalid byte sequences
+      if (text.includes('\uFFFD') && !issues.has('INVALID_ENCODING')) {
+        flag('INVALID_ENCODING');
+      }
+    },
+    recordXmlError(error) {
+      hasContent = true;
+      flag('XML_ERROR', error.message.split('\n').join(' '));
+    },
+    get hasContent() {
+      return hasContent;
+    },
+    report(type) {
+      const list = [...issues.values()];
+      const total = (severity: SitemapLintIssue['severity']) => list
+        .filter(issue => issue.severity === severity)
+        .reduce((sum, issue) => sum + issue.count, 0);
+      return {
+        checkedAt: new Date().toISOString(),
+        type,
+        entryCount,
+        uncompressedBytes,
+        errorCount: total('ERROR'),
+        warningCount: total('WARNING'),
+        issues: list,
+      };
+    },
+  };
+}
+
+// ============ HELPERS ============
+function isValidLastmod(value: string): boolean {
+  return W3C_DATETIME.test(value) && !isNaN(new Date(value).getTime());
+}
+
+// The project domain may be stored with or without a scheme. www and the bare
+// domain are treated as one site, since projects are usually registered by
+// the bare domain.
+function normalizeHost(value: string): string {
+  let host = value.trim().toLowerCase();
+  try {
+    host = new URL(host.includes('://') ? host : `https://${host}`).hostname;
+  } catch {
+    return '';
+  }
+  return host.replace(/^www\./, '');
+}
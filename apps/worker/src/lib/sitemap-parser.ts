@@ -0,0 +1,370 @@
+import sax from 'sax';
+import type { UrlExtensions, SitemapImage, SitemapVideo, SitemapNews } from '@repo/db/schema';
+
+// ============ TYPES ============
+export type SitemapType = 'INDEX' | 'URLSET' | 'RSS' | 'ATOM' | 'TEXT';
+
+export interface ParsedUrl {
+  loc: string;
+  lastmod?: string;
+  changefreq?: string;
+  priority?: string;
+  extensions?: UrlExtensions; // Image, video, news and hreflang data
+}
+
+export interface ChildSitemap {
+  loc: string;
+  lastmod?: string;
+}
+
+export interface SitemapParserHandlers {
+  onUrl: (url: ParsedUrl) => void;
+  onChildSitemap: (child: ChildSitemap) => void;
+}
+
+export interface SitemapParser {
+  /** Feeds decoded text; throws on malformed XML. */
+  write: (text: string) => void;
+  end: () => void;
+  /** Detected format; URLSET until the content says otherwise. */
+  readonly type: SitemapType;
+}
+
+// ============ CONFIGURATION ============
+const MAX_IMAGES_PER_URL = 1000; // Google's limit; further images are only counted
+const MAX_VIDEOS_PER_URL = 100;
+
+// Extension namespaces are matched by URI, not by prefix: `image:` is only a
+// convention and sitemaps in the wild use other prefixes for the same schema.
+const EXTENSION_NAMESPACES: Record<string, string> = {
+  'http://www.google.com/schemas/sitemap-image/1.1': 'image',
+  'http://www.google.com/schemas/sitemap-video/1.1': 'video',
+  'http://www.google.com/schemas/sitemap-news/0.9': 'news',
+  'http://www.w3.org/1999/xhtml': 'xhtml',
+  'http://purl.org/dc/elements/1.1/': 'dc',
+};
+const EXTENSION_NAMES = new Set(Object.values(EXTENSION_NAMESPACES));
+
+// ============ FORMAT DETECTION ============
+// The format is sniffed from the content rather than the URL or Content-Type,
+// which are unreliable: XML sitemaps and feeds start with '<', text sitemaps
+// (one URL per line) start with a URL.
+export function createSitemapParser(handlers: SitemapParserHandlers): SitemapParser {
+  let delegate: SitemapParser | null = null;
+  let pending = '';
+
+  const select = (text: string) => {
+    const trimmed = text.replace(/^\uFEFF/, '').trimStart();
+    if (!trimmed) return false;
+    delegate = trimmed.startsWith('<')
+      ? createXmlParser(handlers)
+      : createTextParser(handlers);
+    return true;
+  };
+
+  return {
+    write(text: string) {
+      if (delegate) {
+        delegate.write(text);
+        return;
+      }
+      pending += text;
+      if (select(pending)) {
+        delegate!.write(pending.replace(/^\uFEFF/, ''));
+        pending = '';
+      }
+    },
+    end() {
+      delegate?.end();
+    },
+    get type() {
+      return delegate?.type ?? 'URLSET';
+    },
+  };
+}
+
+// ============ XML: URLSET, SITEMAPINDEX, RSS, ATOM ============
+// Elements are keyed as `local` for the sitemap, RSS and Atom vocabularies and
+// as `ext:local` for extensions, so <image:loc> can never be taken for <loc>.
+function createXmlParser(handlers: SitemapParserHandlers): SitemapParser {
+  const parser = sax.parser(true, { trim: true, xmlns: true });
+  let type: SitemapType = 'URLSET';
+  let currentTag = '';
+  const openTags: string[] = [];
+  let current: Partial<ParsedUrl> = {};
+  let extensions: UrlExtensions = {};
+  let image: Partial<SitemapImage> | null = null;
+  let video: SitemapVideo | null = null;
+  let news: SitemapNews | null = null;
+  let inEntry = false; // Inside an RSS <item> or Atom <entry>
+  let guid: string | undefined;
+  let parseError: Error | null = null;
+
+  const startUrl = () => {
+    current = {};
+    extensions = {};
+  };
+
+  parser.onopentag = (node) => {
+    currentTag = elementKey(node as sax.QualifiedTag);
+    openTags.push(currentTag);
+
+    switch (currentTag) {
+      case 'sitemapindex':
+        type = 'INDEX';
+        break;
+      case 'rss':
+      case 'rdf':
+        type = 'RSS';
+        break;
+      case 'feed':
+        type = 'ATOM';
+        break;
+      case 'url':
+        startUrl();
+        break;
+      case 'item':
+      case 'entry':
+        inEntry = true;
+        startUrl();
+        guid = undefined;
+        break;
+      case 'link':
+        // Atom links carry the URL in href; prefer rel="alternate" (the default)
+        if (type === 'ATOM' && inEntry) {
+          const href = attribute(node, 'href');
+          const rel = attribute(node, 'rel') ?? 'alternate';
+          if (href && rel === 'alternate') {
+            current.loc = href;
+          }
+        }
+        break;
+      case 'image:image':
+        image = {};
+        break;
+      case 'video:video':
+        video = {};
+        break;
+      case 'news:news':
+        news = {};
+        break;
+      case 'xhtml:link': {
+        const hreflang = attribute(node, 'hreflang');
+        const href = attribute(node, 'href');
+        if (attribute(node, 'rel') === 'alternate' && hreflang && href) {
+          (extensions.alternates ??= []).push({ hreflang, href });
+        }
+        break;
+      }
+    }
+  };
+
+  const handleText = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    if (type === 'RSS' || type === 'ATOM') {
+      if (!inEntry) return;
+      switch (currentTag) {
+        case 'link':
+          current.loc = trimmed;
+          break;
+        case 'guid':
+          // Only a fallback for items without <link>: many feeds use non-URL GUIDs
+          if (/^https?:\/\//i.test(trimmed)) guid = trimmed;
+          break;
+        case 'pubdate':
+        case 'dc:date':
+        case 'updated':
+          current.lastmod = toIsoDate(trimmed);
+          break;
+        case 'published':
+          current.lastmod ??= toIsoDate(trimmed);
+          break;
+      }
+      return;
+    }
+
+    switch (currentTag) {
+      case 'loc':
+        current.loc = trimmed;
+        break;
+      case 'lastmod':
+        current.lastmod = trimmed;
+        break;
+      case 'changefreq':
+        current.changefreq = trimmed;
+        break;
+      case 'priority':
+        current.priority = trimmed;
+        break;
+
+      // Image extension
+      case 'image:loc':
+        if (image) image.loc = trimmed;
+        break;
+      case 'image:title':
+        if (image) image.title = trimmed;
+        break;
+      case 'image:caption':
+        if (image) image.caption = trimmed;
+        break;
+
+      // Video extension
+      case 'video:thumbnail_loc':
+        if (video) video.thumbnailLoc = trimmed;
+        break;
+      case 'video:title':
+        if (video) video.title = trimmed;
+        break;
+      case 'video:content_loc':
+        if (video) video.contentLoc = trimmed;
+        break;
+      case 'video:player_loc':
+        if (video) video.playerLoc = trimmed;
+        break;
+      case 'video:duration':
+        if (video && !isNaN(Number(trimmed))) video.duration = Number(trimmed);
+        break;
+      case 'video:publication_date':
+        if (video) video.publicationDate = trimmed;
+        break;
+
+      // News extension
+      case 'news:publication_date':
+        if (news) news.publicationDate = trimmed;
+        break;
+      case 'news:title':
+        if (news) news.title = trimmed;
+        break;
+      case 'news:name':
+        if (news) news.publicationName = trimmed;
+        break;
+      case 'news:language':
+        if (news) news.language = trimmed;
+        break;
+    }
+  };
+
+  parser.ontext = handleText;
+  parser.oncdata = handleText;
+
+  parser.onclosetag = () => {
+    const tag = openTags.pop() ?? '';
+
+    if (tag === 'sitemap' && type === 'INDEX') {
+      if (current.loc) {
+        handlers.onChildSitemap({ loc: current.loc, lastmod: current.lastmod });
+      }
+      startUrl();
+    } else if (tag === 'url' && type === 'URLSET') {
+      if (current.loc) {
+        handlers.onUrl({ ...current, extensions: hasExtensions(extensions) ? extensions : undefined } as ParsedUrl);
+      }
+      startUrl();
+    } else if ((tag === 'item' || tag === 'entry') && inEntry) {
+      const loc = current.loc ?? guid;
+      if (loc) {
+        handlers.onUrl({ loc, lastmod: current.lastmod });
+      }
+      startUrl();
+      inEntry = false;
+    } else if (tag === 'image:image' && image) {
+      extensions.imageCount = (extensions.imageCount ?? 0) + 1;
+      if (image.loc && (extensions.images?.length ?? 0) < MAX_IMAGES_PER_URL) {
+        (extensions.images ??= []).push(image as SitemapImage);
+      }
+      image = null;
+    } else if (tag === 'video:video' && video) {
+      if ((extensions.videos?.length ?? 0) < MAX_VIDEOS_PER_URL) {
+        (extensions.videos ??= []).push(video);
+      }
+      video = null;
+    } else if (tag === 'news:news' && news) {
+      extensions.news = news;
+      news = null;
+    }
+    currentTag = '';
+  };
+
+  parser.onerror = (error) => {
+    // Undeclared prefixes (a common generator bug) are tolerated; elementKey
+    // falls back to the prefix, which sax reports as the URI in that case
+    if (error.message.startsWith('Unbound namespace prefix')) {
+      parser.resume();
+      return;
+    }
+    parseError = error;
+  };
+
+  const throwIfFailed = () => {
+    if (parseError) throw parseError;
+  };
+
+  return {
+    write(text: string) {
+      parser.write(text);
+      throwIfFailed();
+    },
+    end() {
+      parser.close();
+      throwIfFailed();
+    },
+    get type() {
+      return type;
+    },
+  };
+}
+
+// ============ PLAIN TEXT ============
+// One absolute URL per line (sitemaps.org "text file" format).
+function createTextParser(handlers: SitemapParserHandlers): SitemapParser {
+  let partialLine = '';
+
+  const handleLine = (line: string) => {
+    const loc = line.trim();
+    if (!loc || loc.startsWith('#')) return;
+    if (/^https?:\/\//i.test(loc)) {
+      handlers.onUrl({ loc });
+    }
+  };
+
+  return {
+    write(text: string) {
+      const lines = (partialLine + text).split(/\r?\n/);
+      partialLine = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    },
+    end() {
+      handleLine(partialLine);
+      partialLine = '';
+    },
+    get type(): SitemapType {
+      return 'TEXT';
+    },
+  };
+}
+
+// ============ HELPERS ============
+function elementKey(node: sax.QualifiedTag): string {
+  const extension = EXTENSION_NAMESPACES[node.uri] ?? (EXTENSION_NAMES.has(node.uri) ? node.uri : undefined);
+  const local = node.local.toLowerCase();
+  return extension ? `${extension}:${local}` : local;
+}
+
+function hasExtensions(extensions: UrlExtensions): boolean {
+  return Object.keys(extensions).length > 0;
+}
+
+function attribute(node: sax.Tag | sax.QualifiedTag, name: string): string | undefined {
+  const value = node.attributes[name];
+  if (value === undefined) return undefined;
+  return typeof value === 'string' ? value : value.value;
+}
+
+// Feed dates are RFC 822 (RSS) or RFC 3339 (Atom); store them as ISO 8601 like
+// sitemap <lastmod>. Unparseable values are passed through unchanged.
+function toIsoDate(value: string): string {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toISOString();
+}
@@ -1,37 +1,117 @@
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { createTRPCRouter, protectedProcedure } from '../trpc';
-import { projects, urls, sitemaps, jobs } from '@repo/db/schema';
-import { eq, and, desc, sql, count } from 'drizzle-orm';
+import { projects, urls, urlRevisions, sitemaps, sitemapSources, jobs, submissions } from '@repo/db/schema';
+import { eq, and, desc, sql, count, isNull, isNotNull, inArray } from 'drizzle-orm';
 import { createHash } from 'crypto';
+import { discoverSitemaps, toOrigin } from '@repo/crawler/discovery';
+import { assertPublicUrl } from '@repo/crawler/address-guard';
+import { compileUrlRules, validateUrlRule } from '@repo/crawler/url-rules';
+import { createNormalizer, UrlNormalizer } from '@repo/crawler/normalize';
+import {
+  fetchRobotsTxt,
+  robotsFromFetch,
+  evaluateRobots,
+  describeRobotsRule,
+  ROBOTS_AGENTS,
+} from '@repo/crawler/robots';
 
 // ============ INPUT VALIDATORS ============
+const urlRuleSchema = z.object({
+  action: z.enum(['INCLUDE', 'EXCLUDE']),
+  type: z.enum(['GLOB', 'REGEX', 'PREFIX', 'QUERY_PARAM']),
+  pattern: z.string().min(1).max(500),
+}).superRefine((rule, ctx) => {
+  const error = validateUrlRule(rule);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ['pattern'] });
+  }
+});
+
 const createProjectSchema = z.object({
   name: z.string().min(1).max(255),
   domain: z.string().url().or(z.string().regex(/^[a-zA-Z0-9][-a-zA-Z0-9]*\.[a-zA-Z]{2,}$/)),
-  sitemapUrl: z.string().url(),
+  sitemapUrl: z.string().url().optional(), // Discovered from the domain when omitted
   settings: z.object({
     autoSync: z.boolean().default(true),
     syncFrequencyHours: z.number().min(1).max(168).default(24),
     priorityEngines: z.array(z.enum(['GOOGLE', 'BING', 'INDEXNOW'])).default(['GOOGLE', 'INDEXNOW']),
     excludePatterns: z.array(z.string()).default([]),
+    urlRules: z.array(urlRuleSchema).max(100).default([]),
+    normalization: z.object({
+      lowercaseHost: z.boolean().default(true),
+      removeDefaultPort: z.boolean().default(true),
+      removeFragment: z.boolean().default(true),
+      removeTrailingSlash: z.boolean().default(true),
+      stripTrackingParams: z.boolean().default(true),
+      trackingParams: z.array(z.string().min(1).max(100)).max(100).default([]),
+      sortQueryParams: z.boolean().default(false),
+    }).optional(),
+    notifyRemovedUrls: z.boolean().default(false),
+    checkNotificationHistory: z.boolean().default(false),
+    googleCredentialSelection: z.enum(['LEAST_USED', 'ROUND_ROBIN']).default('LEAST_USED'),
+    gscProperty: z.string().regex(/^(sc-domain:|https?:\/\/)/, 'Must be sc-domain:<domain> or a URL prefix').max(255).optional(),
   }).optional(),
 });
 
+const domainSchema = createProjectSchema.shape.domain;
+
+const sitemapSourceSchema = z.object({
+  projectId: z.string().uuid(),
+  url: z.string().url(),
+  label: z.string().max(100).optional(),
+});
+
+const updateSitemapSourceSchema = z.object({
+  id: z.string().uuid(),
+  label: z.string().max(100).nullable().optional(),
+  isEnabled: z.boolean().optional(),
+});
+
 const updateProjectSchema = createProjectSchema.partial().extend({
   id: z.string().uuid(),
 });
 
 const listUrlsSchema = z.object({
   projectId: z.string().uuid(),
-  status: z.enum(['DISCOVERED', 'QUEUED', 'SUBMITTED', 'INDEXED', 'NOT_INDEXED', 'ERROR']).optional(),
+  status: z.enum([
+    'DISCOVERED', 'QUEUED', 'SUBMITTED', 'INDEXED', 'NOT_INDEXED', 'ERROR', 'DUPLICATE',
+    'CRAWL_ERROR', 'REDIRECT', 'ERROR_4XX', 'ERROR_5XX', 'BLOCKED_NOINDEX', 'BLOCKED_ROBOTS',
+  ]).optional(),
   search: z.string().optional(),
+  sourceId: z.string().uuid().optional(), // URLs listed under one root sitemap
+  excluded: z.boolean().optional(), // Matched an exclude rule at the last scan
+  // Sitemap extension filters
+  hasImages: z.boolean().optional(),
+  hasVideos: z.boolean().optional(),
+  hasNews: z.boolean().optional(),
+  hreflang: z.string().min(1).max(35).optional(), // URLs declaring this alternate language
+  canonicalStatus: z.enum(['SELF', 'MISMATCH', 'MISSING', 'CONFLICT']).optional(), // From the last health check
   page: z.number().min(1).default(1),
   pageSize: z.number().min(1).max(100).default(50),
   sortBy: z.enum(['loc', 'lastmod', 'googleStatus', 'createdAt']).default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
 });
 
+const listChangedSinceSubmissionSchema = z.object({
+  projectId: z.string().uuid(),
+  engine: z.enum(['GOOGLE', 'BING']), // BING covers IndexNow submissions
+  page: z.number().min(1).default(1),
+  pageSize: z.number().min(1).max(100).default(50),
+});
+
+const previewRulesSchema = z.object({
+  projectId: z.string().uuid(),
+  urlRules: z.array(urlRuleSchema).max(100),
+  excludePatterns: z.array(z.string()).optional(), // Defaults to the saved patterns
+});
+
+// ============ CONFIGURATION ============
+const RULE_PREVIEW = {
+  MAX_URLS: 5000, // Evaluated per request; larger projects get a random sample
+  SAMPLE_SIZE: 20,
+};
+
 // ============ ROUTER ============
 export const projectsRouter = createTRPCRouter({
   
@@ -138,22 +218,53 @@ export const projectsRouter = createTRPCRouter({
         });
       }
       
-      const [newProject] = await db
-        .insert(projects)
-        .values({
-          organizationId,
-          name: input.name,
-          domain: input.domain,
-          sitemapUrl: input.sitemapUrl,
-          settings: input.settings ?? {},
-        })
-        .returning();
+      // Without an explicit sitemap, use the first one discovery can read
+      let sitemapUrl = input.sitemapUrl;
+      let discovered;
+      if (!sitemapUrl) {
+        await assertFetchable(toOrigin(input.domain));
+        discovered = await discoverSitemaps(input.domain);
+        sitemapUrl = discovered.candidates.find(c => c.valid)?.url;
+        
+        if (!sitemapUrl) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'No sitemap found in robots.txt or at common locations; please enter the sitemap URL',
+          });
+        }
+      }
       
-      // Queue initial scan job
-      await db.insert(jobs).values({
-        projectId: newProject.id,
-        type: 'FULL_SCAN',
-        status: 'PENDING',
+      // The project, its first source and its first scan exist together or not at all
+      const primarySitemapUrl = sitemapUrl;
+      const newProject = await db.transaction(async (tx) => {
+        const [project] = await tx
+          .insert(projects)
+          .values({
+            organizationId,
+            name: input.name,
+            domain: input.domain,
+            sitemapUrl: primarySitemapUrl,
+            settings: input.settings ?? {},
+            ...(discovered && {
+              discoveredSitemaps: discovered.candidates,
+              sitemapsDiscoveredAt: new Date(),
+            }),
+          })
+          .returning();
+        
+        await tx.insert(sitemapSources).values({
+          projectId: project.id,
+          url: primarySitemapUrl,
+        });
+        
+        // Queue initial scan job
+        await tx.insert(jobs).values({
+          projectId: project.id,
+          type: 'FULL_SCAN',
+          status: 'PENDING',
+        });
+        
+        return project;
       });
       
       // Audit log
@@ -165,6 +276,14 @@ export const projectsRouter = createTRPCRouter({
       return newProject;
     }),
 
+  // Find sitemap candidates for a domain (robots.txt, then well-known paths)
+  discoverSitemaps: protectedProcedure
+    .input(z.object({ domain: domainSchema }))
+    .query(async ({ input }) => {
+      await assertFetchable(toOrigin(input.domain));
+      return discoverSitemaps(input.domain);
+    }),
+
   // Update project
   update: protectedProcedure
     .input(updateProjectSchema)
@@ -172,19 +291,53 @@ export const projectsRouter = createTRPCRouter({
       const { db, organizationId } = ctx;
       const { id, ...updates } = input;
       
-      const [updated] = await db
-        .update(projects)
-        .set({
-          ...updates,
-          updatedAt: new Date(),
-        })
-        .where(
-          and(
-            eq(projects.id, id),
-            eq(projects.organizationId, organizationId)
+      const updated = await db.transaction(async (tx) => {
+        const [current] = await tx
+          .select({ sitemapUrl: projects.sitemapUrl })
+          .from(projects)
+          .where(
+            and(
+              eq(projects.id, id),
+              eq(projects.organizationId, organizationId)
+            )
           )
-        )
-        .returning();
+          .limit(1);
+        
+        if (!current) return null;
+        
+        const [project] = await tx
+          .update(projects)
+          .set({
+            ...updates,
+            updatedAt: new Date(),
+          })
+          .where(eq(projects.id, id))
+          .returning();
+        
+        // The primary sitemap is also a source: changing it moves that source,
+        // unless the new URL is a source already
+        if (updates.sitemapUrl && updates.sitemapUrl !== current.sitemapUrl) {
+          const [existing] = await tx
+            .select({ id: sitemapSources.id })
+            .from(sitemapSources)
+            .where(and(eq(sitemapSources.projectId, id), eq(sitemapSources.url, updates.sitemapUrl)))
+            .limit(1);
+          
+          if (!existing) {
+            const [moved] = await tx
+              .update(sitemapSources)
+              .set({ url: updates.sitemapUrl })
+              .where(and(eq(sitemapSources.projectId, id), eq(sitemapSources.url, current.sitemapUrl)))
+              .returning({ id: sitemapSources.id });
+            
+            if (!moved) {
+              await tx.insert(sitemapSources).values({ projectId: id, url: updates.sitemapUrl });
+            }
+          }
+        }
+        
+        return project;
+      });
       
       if (!updated) {
         throw new TRPCError({
@@ -226,6 +379,175 @@ export const projectsRouter = createTRPCRouter({
       return { success: true };
     }),
 
+  // Root sitemaps of a project, with per-root stats
+  listSitemapSources: protectedProcedure
+    .input(z.object({ projectId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const { db, organizationId } = ctx;
+      
+      // Verify project
+      const [project] = await db
+        .select({ id: projects.id })
+        .from(projects)
+        .where(
+          and(
+            eq(projects.id, input.projectId),
+            eq(projects.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+      
+      if (!project) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Project not found' });
+      }
+      
+      const sources = await db
+        .select()
+        .from(sitemapSources)
+        .where(eq(sitemapSources.projectId, input.projectId))
+        .orderBy(sitemapSources.createdAt);
+      
+      // URLs are attributed to the root of the sitemap that last listed them
+      const stats = await db.execute(sql`
+        SELECT
+          s.source_id,
+          COUNT(DISTINCT s.id) as sitemaps,
+          COUNT(u.id) FILTER (WHERE u.removed_at IS NULL) as total,
+          COUNT(u.id) FILTER (WHERE u.removed_at IS NULL AND u.google_status = 'INDEXED') as indexed,
+          COUNT(u.id) FILTER (WHERE u.removed_at IS NULL AND u.google_status IN ('DISCOVERED', 'QUEUED')) as pending,
+          COUNT(u.id) FILTER (WHERE u.removed_at IS NULL AND u.google_status IN ('ERROR_4XX', 'ERROR_5XX', 'CRAWL_ERROR')) as errors,
+          MAX(s.last_fetched_at) as last_fetched_at
+        FROM sitemaps s
+        LEFT JOIN urls u ON u.sitemap_id = s.id
+        WHERE s.project_id = ${input.projectId}
+          AND s.source_id IS NOT NULL
+        GROUP BY s.source_id
+      `);
+      
+      const statsBySource = new Map(stats.rows.map((row: any) => [row.source_id, row]));
+      
+      return sources.map(source => {
+        const row: any = statsBySource.get(source.id);
+        return {
+          ...source,
+          stats: {
+            sitemaps: Number(row?.sitemaps ?? 0),
+            totalUrls: Number(row?.total ?? 0),
+            indexedUrls: Number(row?.indexed ?? 0),
+            pendingUrls: Number(row?.pending ?? 0),
+            errorUrls: Number(row?.errors ?? 0),
+            lastFetchedAt: row?.last_fetched_at ?? null,
+          },
+        };
+      });
+    }),
+
+  // Add a root sitemap; it is scanned with the project's next scan
+  addSitemapSource: protectedProcedure
+    .input(sitemapSourceSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { db, organizationId } = ctx;
+      
+      // Verify project
+      const [project] = await db
+        .select({ id: projects.id })
+        .from(projects)
+        .where(
+          and(
+            eq(projects.id, input.projectId),
+            eq(projects.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+      
+      if (!project) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Project not found' });
+      }
+      
+      const [source] = await db
+        .insert(sitemapSources)
+        .values({
+          projectId: input.projectId,
+          url: input.url,
+          label: input.label,
+        })
+        .onConflictDoNothing()
+        .returning();
+      
+      if (!source) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'This sitemap is already a source of the project',
+        });
+      }
+      
+      await ctx.auditLog('sitemap_source.created', 'project', input.projectId, {
+        sourceId: source.id,
+        url: input.url,
+      });
+      
+      return source;
+    }),
+
+  // Rename or enable/disable a root sitemap
+  updateSitemapSource: protectedProcedure
+    .input(updateSitemapSourceSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { db, organizationId } = ctx;
+      const { id, ...updates } = input;
+      
+      const [updated] = await db
+        .update(sitemapSources)
+        .set(updates)
+        .where(
+          and(
+            eq(sitemapSources.id, id),
+            sql`${sitemapSources.projectId} IN (
+              SELECT ${projects.id} FROM ${projects} WHERE ${projects.organizationId} = ${organizationId}
+            )`
+          )
+        )
+        .returning();
+      
+      if (!updated) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Sitemap source not found' });
+      }
+      
+      await ctx.auditLog('sitemap_source.updated', 'project', updated.projectId, { sourceId: id, ...updates });
+      
+      return updated;
+    }),
+
+  // Remove a root sitemap; its URLs are marked removed by the next full scan
+  removeSitemapSource: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, organizationId } = ctx;
+      
+      const [deleted] = await db
+        .delete(sitemapSources)
+        .where(
+          and(
+            eq(sitemapSources.id, input.id),
+            sql`${sitemapSources.projectId} IN (
+              SELECT ${projects.id} FROM ${projects} WHERE ${projects.organizationId} = ${organizationId}
+            )`
+          )
+        )
+        .returning({ projectId: sitemapSources.projectId, url: sitemapSources.url });
+      
+      if (!deleted) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Sitemap source not found' });
+      }
+      
+      await ctx.auditLog('sitemap_source.deleted', 'project', deleted.projectId, {
+        sourceId: input.id,
+        url: deleted.url,
+      });
+      
+      return { success: true };
+    }),
+
   // List URLs for a project with filtering/pagination
   listUrls: protectedProcedure
     .input(listUrlsSchema)
@@ -259,6 +581,41 @@ export const projectsRouter = createTRPCRouter({
         conditions.push(sql`${urls.loc} ILIKE ${`%${input.search}%`}`);
       }
       
+      if (input.excluded !== undefined) {
+        conditions.push(input.excluded ? sql`${urls.excludedAt} IS NOT NULL` : isNull(urls.excludedAt));
+      }
+      
+      if (input.sourceId) {
+        conditions.push(
+          sql`${urls.sitemapId} IN (SELECT ${sitemaps.id} FROM ${sitemaps} WHERE ${sitemaps.sourceId} = ${input.sourceId})`
+        );
+      }
+      
+      if (input.hasImages !== undefined) {
+        const hasImages = sql`COALESCE((${urls.metadata}->>'imageCount')::int, 0) > 0`;
+        conditions.push(input.hasImages ? hasImages : sql`NOT (${hasImages})`);
+      }
+      
+      if (input.hasVideos !== undefined) {
+        const hasVideos = sql`COALESCE(${urls.metadata} ? 'videos', false)`;
+        conditions.push(input.hasVideos ? hasVideos : sql`NOT (${hasVideos})`);
+      }
+      
+      if (input.hasNews !== undefined) {
+        const hasNews = sql`COALESCE(${urls.metadata} ? 'news', false)`;
+        conditions.push(input.hasNews ? hasNews : sql`NOT (${hasNews})`);
+      }
+      
+      if (input.hreflang) {
+        conditions.push(
+          sql`${urls.metadata}->'alternates' @> ${JSON.stringify([{ hreflang: input.hreflang }])}::jsonb`
+        );
+      }
+      
+      if (input.canonicalStatus) {
+        conditions.push(sql`${urls.metadata}->'canonical'->>'status' = ${input.canonicalStatus}`);
+      }
+      
       const offset = (input.page - 1) * input.pageSize;
       
       // Get total count
@@ -277,7 +634,28 @@ export const projectsRouter = createTRPCRouter({
           googleStatus: urls.googleStatus,
           bingStatus: urls.bingStatus,
           googleSubmittedAt: urls.googleSubmittedAt,
+          googleLastCheckedAt: urls.googleLastCheckedAt,
+          googleLatestUpdateAt: urls.googleLatestUpdateAt,
+          googleLatestRemoveAt: urls.googleLatestRemoveAt,
+          coverageState: urls.coverageState,
+          indexingState: urls.indexingState,
+          crawledAs: urls.crawledAs,
+          lastCrawlTime: urls.lastCrawlTime,
+          googleRobotsTxtState: urls.googleRobotsTxtState,
           firstSeenAt: urls.firstSeenAt,
+          removedAt: urls.removedAt,
+          excludedAt: urls.excludedAt,
+          excludedRule: urls.excludedRule,
+          canonicalUrlId: urls.canonicalUrlId,
+          robotsTxtState: urls.robotsTxtState,
+          robotsRule: urls.robotsRule,
+          httpStatus: urls.httpStatus,
+          responseTimeMs: urls.responseTimeMs,
+          finalUrl: urls.finalUrl,
+          finalStatus: urls.finalStatus,
+          redirectChain: urls.redirectChain,
+          lastHealthCheckAt: urls.lastHealthCheckAt,
+          metadata: urls.metadata,
         })
         .from(urls)
         .where(and(...conditions))
@@ -300,18 +678,15 @@ export const projectsRouter = createTRPCRouter({
       };
     }),
 
-  // Trigger manual scan
-  triggerScan: protectedProcedure
-    .input(z.object({ 
-      projectId: z.string().uuid(),
-      type: z.enum(['FULL_SCAN', 'INCREMENTAL_SYNC']).default('INCREMENTAL_SYNC'),
-    }))
-    .mutation(async ({ ctx, input }) => {
+  // URLs whose lastmod moved past their last submission to an engine, i.e.
+  // what the submitters would resubmit, with the revisions seen since then
+  listChangedSinceSubmission: protectedProcedure
+    .input(listChangedSinceSubmissionSchema)
+    .query(async ({ ctx, input }) => {
       const { db, organizationId } = ctx;
       
-      // Verify project
       const [project] = await db
-        .select({ id: projects.id, name: projects.name })
+        .select({ id: projects.id })
         .from(projects)
         .where(
           and(
@@ -325,57 +700,90 @@ export const projectsRouter = createTRPCRouter({
         throw new TRPCError({ code: 'NOT_FOUND', message: 'Project not found' });
       }
       
-      // Check for existing pending/processing job
-      const [existingJob] = await db
-        .select({ id: jobs.id })
-        .from(jobs)
-        .where(
-          and(
-            eq(jobs.projectId, input.projectId),
-            eq(jobs.type, input.type),
-            sql`${jobs.status} IN ('PENDING', 'PROCESSING')`
-          )
-        )
-        .limit(1);
+      const submittedAt = input.engine === 'GOOGLE' ? urls.googleSubmittedAt : urls.bingSubmittedAt;
+      const conditions = and(
+        eq(urls.projectId, input.projectId),
+        isNotNull(submittedAt),
+        sql`${urls.lastmod} > ${submittedAt}`,
+        isNull(urls.removedAt),
+        isNull(urls.excludedAt),
+        isNull(urls.canonicalUrlId)
+      );
       
-      if (existingJob) {
-        throw new TRPCError({
-          code: 'CONFLICT',
-          message: 'A scan job is already in progress for this project',
-        });
-      }
+      const offset = (input.page - 1) * input.pageSize;
       
-      // Create new job
-      const [newJob] = await db
-        .insert(jobs)
-        .values({
-          projectId: input.projectId,
-          type: input.type,
-          status: 'PENDING',
+      const [{ total }] = await db
+        .select({ total: count() })
+        .from(urls)
+        .where(conditions);
+      
+      const urlList = await db
+        .select({
+          id: urls.id,
+          loc: urls.loc,
+          lastmod: urls.lastmod,
+          submittedAt,
         })
-        .returning();
+        .from(urls)
+        .where(conditions)
+        .orderBy(desc(urls.lastmod))
+        .limit(input.pageSize)
+        .offset(offset);
       
-      await ctx.auditLog('job.triggered', 'job', newJob.id, {
-        projectId: input.projectId,
-        type: input.type,
-      });
+      const revisions = urlList.length > 0
+        ? await db
+          .select({
+            urlId: urlRevisions.urlId,
+            lastmod: urlRevisions.lastmod,
+            changefreq: urlRevisions.changefreq,
+            priority: urlRevisions.priority,
+            observedAt: urlRevisions.observedAt,
+          })
+          .from(urlRevisions)
+          .innerJoin(urls, eq(urls.id, urlRevisions.urlId))
+          .where(
+            and(
+              inArray(urlRevisions.urlId, urlList.map(u => u.id)),
+              sql`${urlRevisions.observedAt} > ${submittedAt}`
+            )
+          )
+          .orderBy(desc(urlRevisions.observedAt))
+        : [];
       
-      return newJob;
+      const revisionsByUrl = new Map<string, typeof revisions>();
+      for (const revision of revisions) {
+        const list = revisionsByUrl.get(revision.urlId) ?? [];
+        list.push(revision);
+        revisionsByUrl.set(revision.urlId, list);
+      }
+      
+      return {
+        urls: urlList.map(url => ({
+          ...url,
+          revisionsSinceSubmission: revisionsByUrl.get(url.id) ?? [],
+        })),
+        pagination: {
+          page: input.page,
+          pageSize: input.pageSize,
+          total: Number(total),
+          totalPages: Math.ceil(Number(total) / input.pageSize),
+        },
+      };
     }),
 
-  // Submit URLs to search engines
-  submitUrls: protectedProcedure
+  // Sitemap URLs whose page declares another URL as canonical, grouped by
+  // that canonical. Such entries should be replaced by their canonical.
+  getCanonicalReport: protectedProcedure
     .input(z.object({
       projectId: z.string().uuid(),
-      urlIds: z.array(z.string().uuid()).min(1).max(1000),
-      engines: z.array(z.enum(['GOOGLE', 'BING', 'INDEXNOW'])).min(1),
+      page: z.number().min(1).default(1),
+      pageSize: z.number().min(1).max(100).default(50),
     }))
-    .mutation(async ({ ctx, input }) => {
+    .query(async ({ ctx, input }) => {
       const { db, organizationId } = ctx;
       
-      // Verify project
       const [project] = await db
-        .select({ id: projects.id })
+        .select({ id: projects.id, settings: projects.settings })
         .from(projects)
         .where(
           and(
@@ -389,37 +797,862 @@ export const projectsRouter = createTRPCRouter({
         throw new TRPCError({ code: 'NOT_FOUND', message: 'Project not found' });
       }
       
-      // Create submission job
-      const [job] = await db
-        .insert(jobs)
-        .values({
-          projectId: input.projectId,
-          type: 'GOOGLE_SUBMISSION', // Will be determined by engine
-          status: 'PENDING',
-          metadata: {
-            urlIds: input.urlIds,
-            engines: input.engines,
-          },
-          totalItems: input.urlIds.length * input.engines.length,
-        })
-        .returning();
+      const summary = await db.execute(sql`
+        SELECT metadata->'canonical'->>'status' as status, COUNT(*) as count
+        FROM urls
+        WHERE project_id = ${input.projectId}
+          AND removed_at IS NULL
+          AND metadata ? 'canonical'
+        GROUP BY 1
+      `);
       
-      await ctx.auditLog('submission.queued', 'job', job.id, {
-        urlCount: input.urlIds.length,
-        engines: input.engines,
-      });
+      const groups = await db.execute(sql`
+        WITH mismatched AS (
+          SELECT loc, metadata->'canonical'->>'url' as canonical_url
+          FROM urls
+          WHERE project_id = ${input.projectId}
+            AND removed_at IS NULL
+            AND metadata->'canonical'->>'status' = 'MISMATCH'
+        )
+        SELECT
+          g.canonical_url,
+          g.url_count,
+          g.examples,
+          COUNT(*) OVER () as total_groups
+        FROM (
+          SELECT canonical_url, COUNT(*) as url_count, (array_agg(loc ORDER BY loc))[1:5] as examples
+          FROM mismatched
+          GROUP BY canonical_url
+        ) g
+        ORDER BY g.url_count DESC, g.canonical_url
+        LIMIT ${input.pageSize}
+        OFFSET ${(input.page - 1) * input.pageSize}
+      `);
+      
+      const totalGroups = Number((groups.rows[0] as any)?.total_groups ?? 0);
+      
+      // inSitemap: whether the canonical itself is listed, in any of its spellings
+      const normalize = createNormalizer(project.settings?.normalization);
+      const canonicalHashes = groups.rows.map((row: any) => normalizedHash(normalize, row.canonical_url));
+      const listedRows = canonicalHashes.length > 0
+        ? await db
+          .selectDistinct({ hash: urls.normalizedHash })
+          .from(urls)
+          .where(
+            and(
+              eq(urls.projectId, input.projectId),
+              isNull(urls.removedAt),
+              inArray(urls.normalizedHash, canonicalHashes)
+            )
+          )
+        : [];
+      const listed = new Set(listedRows.map(row => row.hash));
       
       return {
-        jobId: job.id,
-        queuedCount: input.urlIds.length * input.engines.length,
+        summary: Object.fromEntries(
+          summary.rows.map((row: any) => [row.status, Number(row.count)])
+        ),
+        groups: groups.rows.map((row: any) => ({
+          canonicalUrl: row.canonical_url as string,
+          urlCount: Number(row.url_count),
+          examples: row.examples as string[],
+          inSitemap: listed.has(normalizedHash(normalize, row.canonical_url)),
+        })),
+        pagination: {
+          page: input.page,
+          pageSize: input.pageSize,
+          total: totalGroups,
+          totalPages: Math.ceil(totalGroups / input.pageSize),
+        },
       };
     }),
 
-  // Get analytics data
-  getAnalytics: protectedProcedure
+  // Sitemap entries that redirect, with what to list instead: the final URL
+  // when it answers 2xx, otherwise the entry should be dropped or fixed
+  getRedirectReport: protectedProcedure
     .input(z.object({
       projectId: z.string().uuid(),
-      dateRange: z.enum(['7d', '30d', '90d']).default('30d'),
+      warning: z.enum(['REDIRECT_LOOP', 'TOO_MANY_REDIRECTS', 'REDIRECT_CHAIN', 'TEMPORARY_REDIRECT', 'MISSING_LOCATION']).optional(),
+      page: z.number().min(1).default(1),
+      pageSize: z.number().min(1).max(100).default(50),
+    }))
+    .query(async ({ ctx, input }) => {
+      const { db, organizationId } = ctx;
+      
+      const [project] = await db
+        .select({ id: projects.id, settings: projects.settings })
+        .from(projects)
+        .where(
+          and(
+            eq(projects.id, input.projectId),
+            eq(projects.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+      
+      if (!project) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Project not found' });
+      }
+      
+      const conditions = [
+        eq(urls.projectId, input.projectId),
+        isNull(urls.removedAt),
+        isNotNull(urls.redirectChain),
+      ];
+      
+      if (input.warning) {
+        conditions.push(sql`${urls.redirectChain}->'warnings' ? ${input.warning}`);
+      }
+      
+      const summary = await db.execute(sql`
+        SELECT
+          COUNT(*) as redirects,
+          COUNT(*) FILTER (WHERE final_status BETWEEN 200 AND 299) as replaceable,
+          COUNT(*) FILTER (WHERE final_status IS NULL OR final_status >= 400) as broken,
+          COUNT(*) FILTER (WHERE redirect_chain->'warnings' ? 'REDIRECT_LOOP') as loops,
+          COUNT(*) FILTER (WHERE redirect_chain->'warnings' ? 'REDIRECT_CHAIN') as chains
+        FROM urls
+        WHERE project_id = ${input.projectId}
+          AND removed_at IS NULL
+          AND redirect_chain IS NOT NULL
+      `);
+      
+      const offset = (input.page - 1) * input.pageSize;
+      
+      const [{ total }] = await db
+        .select({ total: count() })
+        .from(urls)
+        .where(and(...conditions));
+      
+      const entries = await db
+        .select({
+          id: urls.id,
+          loc: urls.loc,
+          httpStatus: urls.httpStatus,
+          finalUrl: urls.finalUrl,
+          finalStatus: urls.finalStatus,
+          redirectChain: urls.redirectChain,
+          lastHealthCheckAt: urls.lastHealthCheckAt,
+        })
+        .from(urls)
+        .where(and(...conditions))
+        .orderBy(urls.loc)
+        .limit(input.pageSize)
+        .offset(offset);
+      
+      // targetInSitemap: the final URL is already listed, so the entry can simply be dropped
+      const normalize = createNormalizer(project.settings?.normalization);
+      const targetHashes = entries.flatMap(entry => entry.finalUrl ? [normalizedHash(normalize, entry.finalUrl)] : []);
+      const listedRows = targetHashes.length > 0
+        ? await db
+          .selectDistinct({ hash: urls.normalizedHash })
+          .from(urls)
+          .where(
+            and(
+              eq(urls.projectId, input.projectId),
+              isNull(urls.removedAt),
+              inArray(urls.normalizedHash, targetHashes)
+            )
+          )
+        : [];
+      const listed = new Set(listedRows.map(row => row.hash));
+      
+      const stats: any = summary.rows[0] ?? {};
+      
+      return {
+        summary: {
+          redirects: Number(stats.redirects ?? 0),
+          replaceable: Number(stats.replaceable ?? 0),
+          broken: Number(stats.broken ?? 0),
+          loops: Number(stats.loops ?? 0),
+          chains: Number(stats.chains ?? 0),
+        },
+        entries: entries.map(entry => ({
+          ...entry,
+          targetInSitemap: entry.finalUrl !== null && listed.has(normalizedHash(normalize, entry.finalUrl)),
+          replaceWith: entry.finalStatus !== null && entry.finalStatus >= 200 && entry.finalStatus < 300
+            ? entry.finalUrl
+            : null,
+        })),
+        pagination: {
+          page: input.page,
+          pageSize: input.pageSize,
+          total: Number(total),
+          totalPages: Math.ceil(Number(total) / input.pageSize),
+        },
+      };
+    }),
+
+  // Sitemap protocol issues found during the last scan, with Search Console's
+  // report, per sitemap
+  getSitemapLintReports: protectedProcedure
+    .input(z.object({
+      projectId: z.string().uuid(),
+      onlyWithIssues: z.boolean().default(true),
+    }))
+    .query(async ({ ctx, input }) => {
+      const { db, organizationId } = ctx;
+      
+      // Verify project
+      const [project] = await db
+        .select({ id: projects.id })
+        .from(projects)
+        .where(
+          and(
+            eq(projects.id, input.projectId),
+            eq(projects.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+      
+      if (!project) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Project not found' });
+      }
+      
+      const conditions = [eq(sitemaps.projectId, input.projectId)];
+      
+      if (input.onlyWithIssues) {
+        conditions.push(sql`(
+          jsonb_array_length(COALESCE(${sitemaps.lintReport}->'issues', '[]'::jsonb)) > 0
+          OR ${sitemaps.gscErrors} > 0
+          OR ${sitemaps.gscWarnings} > 0
+          OR ${sitemaps.gscErrorMessage} IS NOT NULL
+        )`);
+      }
+      
+      const reports = await db
+        .select({
+          sitemapId: sitemaps.id,
+          url: sitemaps.url,
+          type: sitemaps.type,
+          urlCount: sitemaps.urlCount,
+          lastFetchedAt: sitemaps.lastFetchedAt,
+          errorMessage: sitemaps.errorMessage,
+          lintReport: sitemaps.lintReport,
+          gscLastSubmittedAt: sitemaps.gscLastSubmittedAt,
+          gscLastDownloadedAt: sitemaps.gscLastDownloadedAt,
+          gscIsPending: sitemaps.gscIsPending,
+          gscWarnings: sitemaps.gscWarnings,
+          gscErrors: sitemaps.gscErrors,
+          gscSubmittedUrls: sitemaps.gscSubmittedUrls,
+          gscIndexedUrls: sitemaps.gscIndexedUrls,
+          gscCheckedAt: sitemaps.gscCheckedAt,
+          gscErrorMessage: sitemaps.gscErrorMessage,
+        })
+        .from(sitemaps)
+        .where(and(...conditions))
+        .orderBy(
+          desc(sql`COALESCE((${sitemaps.lintReport}->>'errorCount')::int, 0)`),
+          sitemaps.url
+        );
+      
+      return {
+        sitemaps: reports,
+        totals: {
+          errors: reports.reduce((sum, r) => sum + (r.lintReport?.errorCount ?? 0), 0),
+          warnings: reports.reduce((sum, r) => sum + (r.lintReport?.warningCount ?? 0), 0),
+          gscErrors: reports.reduce((sum, r) => sum + (r.gscErrors ?? 0), 0),
+          gscWarnings: reports.reduce((sum, r) => sum + (r.gscWarnings ?? 0), 0),
+          notInSearchConsole: reports.filter(r => r.gscCheckedAt && !r.gscLastSubmittedAt).length,
+        },
+      };
+    }),
+
+  // Show which stored URLs a URL rule change would exclude or include, before saving it
+  previewRules: protectedProcedure
+    .input(previewRulesSchema)
+    .query(async ({ ctx, input }) => {
+      const { db, organizationId } = ctx;
+      
+      // Verify project
+      const [project] = await db
+        .select({ id: projects.id, settings: projects.settings })
+        .from(projects)
+        .where(
+          and(
+            eq(projects.id, input.projectId),
+            eq(projects.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+      
+      if (!project) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Project not found' });
+      }
+      
+      // Rules are evaluated in JS, as in the workers, so regex semantics match exactly
+      const current = compileUrlRules(project.settings);
+      const proposed = compileUrlRules({
+        ...project.settings,
+        urlRules: input.urlRules,
+        excludePatterns: input.excludePatterns ?? project.settings?.excludePatterns,
+      });
+      
+      const scope = and(eq(urls.projectId, input.projectId), isNull(urls.removedAt));
+      const [{ total }] = await db.select({ total: count() }).from(urls).where(scope);
+      const sampled = total > RULE_PREVIEW.MAX_URLS;
+      
+      const candidates: Array<{ id: string; loc: string }> = await db
+        .select({ id: urls.id, loc: urls.loc })
+        .from(urls)
+        .where(scope)
+        .orderBy(sampled ? sql`random()` : urls.id)
+        .limit(RULE_PREVIEW.MAX_URLS);
+      
+      // Counts cover the evaluated URLs only; scale by totalUrls / evaluated when sampled
+      const result = {
+        evaluated: candidates.length,
+        totalUrls: total,
+        sampled,
+        currentlyExcluded: 0,
+        excluded: 0,
+        newlyExcluded: 0,
+        newlyIncluded: 0,
+        matchesByRule: {} as Record<string, number>,
+        samples: {
+          newlyExcluded: [] as Array<{ id: string; loc: string; rule: string | null }>,
+          newlyIncluded: [] as Array<{ id: string; loc: string; rule: string | null }>,
+        },
+      };
+      
+      for (const url of candidates) {
+        const before = current.evaluate(url.loc);
+        const after = proposed.evaluate(url.loc);
+        
+        if (before.excluded) result.currentlyExcluded++;
+        if (after.excluded) result.excluded++;
+        if (after.rule) {
+          result.matchesByRule[after.rule] = (result.matchesByRule[after.rule] ?? 0) + 1;
+        }
+        
+        if (after.excluded && !before.excluded) {
+          result.newlyExcluded++;
+          if (result.samples.newlyExcluded.length < RULE_PREVIEW.SAMPLE_SIZE) {
+            result.samples.newlyExcluded.push({ id: url.id, loc: url.loc, rule: after.rule });
+          }
+        } else if (!after.excluded && before.excluded) {
+          result.newlyIncluded++;
+          if (result.samples.newlyIncluded.length < RULE_PREVIEW.SAMPLE_SIZE) {
+            result.samples.newlyIncluded.push({ id: url.id, loc: url.loc, rule: before.rule });
+          }
+        }
+      }
+      
+      return result;
+    }),
+
+  // Which robots.txt rule decides a URL for Googlebot, Bingbot and our own
+  // crawler, fetched live so recent edits to robots.txt show up
+  testRobots: protectedProcedure
+    .input(z.object({
+      projectId: z.string().uuid(),
+      url: z.string().url(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const { db, organizationId } = ctx;
+      
+      const [project] = await db
+        .select({ id: projects.id })
+        .from(projects)
+        .where(
+          and(
+            eq(projects.id, input.projectId),
+            eq(projects.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+      
+      if (!project) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Project not found' });
+      }
+      
+      await assertFetchable(input.url);
+      const target = new URL(input.url);
+      
+      const fetched = await fetchRobotsTxt(target.origin);
+      const robots = robotsFromFetch(fetched);
+      
+      return {
+        robotsTxtUrl: `${target.origin}/robots.txt`,
+        fetchStatus: fetched.status,
+        httpStatus: fetched.httpStatus,
+        // allowed is null when robots.txt is unavailable and the rules are unknown
+        agents: Object.values(ROBOTS_AGENTS).map(userAgent => {
+          const decision = robots ? evaluateRobots(robots, userAgent, target) : null;
+          return {
+            userAgent,
+            allowed: decision?.allowed ?? null,
+            matchedGroup: decision?.agent ?? null,
+            rule: decision?.rule
+              ? { ...decision.rule, description: describeRobotsRule(decision.rule) }
+              : null,
+          };
+        }),
+      };
+    }),
+
+  // Trigger manual scan
+  triggerScan: protectedProcedure
+    .input(z.object({ 
+      projectId: z.string().uuid(),
+      type: z.enum(['FULL_SCAN', 'INCREMENTAL_SYNC']).default('INCREMENTAL_SYNC'),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, organizationId } = ctx;
+      
+      // Verify project
+      const [project] = await db
+        .select({ id: projects.id, name: projects.name })
+        .from(projects)
+        .where(
+          and(
+            eq(projects.id, input.projectId),
+            eq(projects.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+      
+      if (!project) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Project not found' });
+      }
+      
+      // Check for existing pending/processing job
+      const [existingJob] = await db
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(
+          and(
+            eq(jobs.projectId, input.projectId),
+            eq(jobs.type, input.type),
+            sql`${jobs.status} IN ('PENDING', 'PROCESSING')`
+          )
+        )
+        .limit(1);
+      
+      if (existingJob) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'A scan job is already in progress for this project',
+        });
+      }
+      
+      // Create new job
+      const [newJob] = await db
+        .insert(jobs)
+        .values({
+          projectId: input.projectId,
+          type: input.type,
+          status: 'PENDING',
+        })
+        .returning();
+      
+      await ctx.auditLog('job.triggered', 'job', newJob.id, {
+        projectId: input.projectId,
+        type: input.type,
+      });
+      
+      return newJob;
+    }),
+
+  // Fetch the project's URLs (or the given ones) to record HTTP status,
+  // redirects and noindex
+  triggerHealthCheck: protectedProcedure
+    .input(z.object({
+      projectId: z.string().uuid(),
+      urlIds: z.array(z.string().uuid()).min(1).max(1000).optional(), // Defaults to URLs due for a check
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, organizationId } = ctx;
+      
+      // Verify project
+      const [project] = await db
+        .select({ id: projects.id })
+        .from(projects)
+        .where(
+          and(
+            eq(projects.id, input.projectId),
+            eq(projects.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+      
+      if (!project) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Project not found' });
+      }
+      
+      const [existingJob] = await db
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(
+          and(
+            eq(jobs.projectId, input.projectId),
+            eq(jobs.type, 'HEALTH_CHECK'),
+            sql`${jobs.status} IN ('PENDING', 'PROCESSING')`
+          )
+        )
+        .limit(1);
+      
+      if (existingJob) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'A health check is already in progress for this project',
+        });
+      }
+      
+      const [newJob] = await db
+        .insert(jobs)
+        .values({
+          projectId: input.projectId,
+          type: 'HEALTH_CHECK',
+          status: 'PENDING',
+          metadata: input.urlIds ? { urlIds: input.urlIds } : {},
+          totalItems: input.urlIds?.length ?? 0,
+        })
+        .returning();
+      
+      await ctx.auditLog('job.triggered', 'job', newJob.id, {
+        projectId: input.projectId,
+        type: 'HEALTH_CHECK',
+        urlCount: input.urlIds?.length,
+      });
+      
+      return newJob;
+    }),
+
+  // Queue a Search Console URL inspection; uses the project's inspection quota
+  triggerStatusCheck: protectedProcedure
+    .input(z.object({
+      projectId: z.string().uuid(),
+      urlIds: z.array(z.string().uuid()).min(1).max(1000).optional(), // Defaults to URLs due for an inspection
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, organizationId } = ctx;
+      
+      // Verify project
+      const [project] = await db
+        .select({ id: projects.id })
+        .from(projects)
+        .where(
+          and(
+            eq(projects.id, input.projectId),
+            eq(projects.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+      
+      if (!project) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Project not found' });
+      }
+      
+      const [existingJob] = await db
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(
+          and(
+            eq(jobs.projectId, input.projectId),
+            eq(jobs.type, 'STATUS_CHECK'),
+            sql`${jobs.status} IN ('PENDING', 'PROCESSING')`
+          )
+        )
+        .limit(1);
+      
+      if (existingJob) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'A status check is already in progress for this project',
+        });
+      }
+      
+      const [newJob] = await db
+        .insert(jobs)
+        .values({
+          projectId: input.projectId,
+          type: 'STATUS_CHECK',
+          status: 'PENDING',
+          metadata: input.urlIds ? { urlIds: input.urlIds } : {},
+          totalItems: input.urlIds?.length ?? 0,
+        })
+        .returning();
+      
+      await ctx.auditLog('job.triggered', 'job', newJob.id, {
+        projectId: input.projectId,
+        type: 'STATUS_CHECK',
+        urlCount: input.urlIds?.length,
+      });
+      
+      return newJob;
+    }),
+
+  // Import Google's notification history for URLs never checked, e.g. after
+  // moving from another submission tool
+  syncNotificationHistory: protectedProcedure
+    .input(z.object({
+      projectId: z.string().uuid(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, organizationId } = ctx;
+      
+      // Verify project
+      const [project] = await db
+        .select({ id: projects.id })
+        .from(projects)
+        .where(
+          and(
+            eq(projects.id, input.projectId),
+            eq(projects.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+      
+      if (!project) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Project not found' });
+      }
+      
+      const [existingJob] = await db
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(
+          and(
+            eq(jobs.projectId, input.projectId),
+            eq(jobs.type, 'NOTIFICATION_SYNC'),
+            sql`${jobs.status} IN ('PENDING', 'PROCESSING')`
+          )
+        )
+        .limit(1);
+      
+      if (existingJob) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'A notification history sync is already in progress for this project',
+        });
+      }
+      
+      const [newJob] = await db
+        .insert(jobs)
+        .values({
+          projectId: input.projectId,
+          type: 'NOTIFICATION_SYNC',
+          status: 'PENDING',
+        })
+        .returning();
+      
+      await ctx.auditLog('job.triggered', 'job', newJob.id, {
+        projectId: input.projectId,
+        type: 'NOTIFICATION_SYNC',
+      });
+      
+      return newJob;
+    }),
+
+  // Read Search Console's report on every sitemap of the project, optionally
+  // submitting them first (needs Owner permission on the property)
+  triggerSitemapSync: protectedProcedure
+    .input(z.object({
+      projectId: z.string().uuid(),
+      submit: z.boolean().default(false),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, organizationId } = ctx;
+      
+      // Verify project
+      const [project] = await db
+        .select({ id: projects.id })
+        .from(projects)
+        .where(
+          and(
+            eq(projects.id, input.projectId),
+            eq(projects.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+      
+      if (!project) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Project not found' });
+      }
+      
+      const [existingJob] = await db
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(
+          and(
+            eq(jobs.projectId, input.projectId),
+            eq(jobs.type, 'GSC_SITEMAP_SYNC'),
+            sql`${jobs.status} IN ('PENDING', 'PROCESSING')`
+          )
+        )
+        .limit(1);
+      
+      if (existingJob) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'A Search Console sitemap sync is already in progress for this project',
+        });
+      }
+      
+      const [newJob] = await db
+        .insert(jobs)
+        .values({
+          projectId: input.projectId,
+          type: 'GSC_SITEMAP_SYNC',
+          status: 'PENDING',
+          metadata: { submit: input.submit },
+        })
+        .returning();
+      
+      await ctx.auditLog('job.triggered', 'job', newJob.id, {
+        projectId: input.projectId,
+        type: 'GSC_SITEMAP_SYNC',
+        submit: input.submit,
+      });
+      
+      return newJob;
+    }),
+
+  // Submit URLs to search engines
+  submitUrls: protectedProcedure
+    .input(z.object({
+      projectId: z.string().uuid(),
+      urlIds: z.array(z.string().uuid()).min(1).max(1000),
+      engines: z.array(z.enum(['GOOGLE', 'BING', 'INDEXNOW'])).min(1),
+      force: z.boolean().default(false), // Also resubmit URLs unchanged since their last submission
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, organizationId } = ctx;
+      
+      // Verify project
+      const [project] = await db
+        .select({ id: projects.id })
+        .from(projects)
+        .where(
+          and(
+            eq(projects.id, input.projectId),
+            eq(projects.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+      
+      if (!project) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Project not found' });
+      }
+      
+      // Create submission job
+      const [job] = await db
+        .insert(jobs)
+        .values({
+          projectId: input.projectId,
+          type: 'GOOGLE_SUBMISSION', // Will be determined by engine
+          status: 'PENDING',
+          metadata: {
+            urlIds: input.urlIds,
+            engines: input.engines,
+            force: input.force,
+          },
+          totalItems: input.urlIds.length * input.engines.length,
+        })
+        .returning();
+      
+      await ctx.auditLog('submission.queued', 'job', job.id, {
+        urlCount: input.urlIds.length,
+        engines: input.engines,
+        force: input.force,
+      });
+      
+      return {
+        jobId: job.id,
+        queuedCount: input.urlIds.length * input.engines.length,
+      };
+    }),
+
+  // URLs the submitters declined to send, with the reason, newest first
+  listSkippedSubmissions: protectedProcedure
+    .input(z.object({
+      projectId: z.string().uuid(),
+      engine: z.enum(['GOOGLE', 'INDEXNOW']).optional(),
+      reason: z.enum([
+        'REMOVED', 'EXCLUDED', 'DUPLICATE', 'BLOCKED_ROBOTS', 'HTTP_ERROR',
+        'REDIRECT', 'NOINDEX', 'RECENTLY_SUBMITTED', 'UNCHANGED',
+      ]).optional(),
+      page: z.number().min(1).default(1),
+      pageSize: z.number().min(1).max(100).default(50),
+    }))
+    .query(async ({ ctx, input }) => {
+      const { db, organizationId } = ctx;
+      
+      const [project] = await db
+        .select({ id: projects.id })
+        .from(projects)
+        .where(
+          and(
+            eq(projects.id, input.projectId),
+            eq(projects.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+      
+      if (!project) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Project not found' });
+      }
+      
+      const conditions = [
+        eq(submissions.projectId, input.projectId),
+        isNotNull(submissions.skipReason),
+      ];
+      
+      if (input.engine) {
+        conditions.push(eq(submissions.engine, input.engine));
+      }
+      
+      const byReason = await db
+        .select({ reason: submissions.skipReason, count: count() })
+        .from(submissions)
+        .where(and(...conditions))
+        .groupBy(submissions.skipReason);
+      
+      if (input.reason) {
+        conditions.push(eq(submissions.skipReason, input.reason));
+      }
+      
+      const offset = (input.page - 1) * input.pageSize;
+      
+      const [{ total }] = await db
+        .select({ total: count() })
+        .from(submissions)
+        .where(and(...conditions));
+      
+      const skipped = await db
+        .select({
+          id: submissions.id,
+          urlId: submissions.urlId,
+          loc: urls.loc,
+          engine: submissions.engine,
+          action: submissions.action,
+          reason: submissions.skipReason,
+          skippedAt: submissions.completedAt,
+        })
+        .from(submissions)
+        .innerJoin(urls, eq(urls.id, submissions.urlId))
+        .where(and(...conditions))
+        .orderBy(desc(submissions.scheduledAt))
+        .limit(input.pageSize)
+        .offset(offset);
+      
+      return {
+        summary: Object.fromEntries(byReason.map(row => [row.reason, Number(row.count)])),
+        submissions: skipped,
+        pagination: {
+          page: input.page,
+          pageSize: input.pageSize,
+          total: Number(total),
+          totalPages: Math.ceil(Number(total) / input.pageSize),
+        },
+      };
+    }),
+
+  // Get analytics data
+  getAnalytics: protectedProcedure
+    .input(z.object({
+      projectId: z.string().uuid(),
+      dateRange: z.enum(['7d', '30d', '90d']).default('30d'),
     }))
     .query(async ({ ctx, input }) => {
       const { db, organizationId } = ctx;
@@ -489,3 +1722,21 @@ export const projectsRouter = createTRPCRouter({
       };
     }),
 });
+
+// ============ HELPERS ============
+// The API process fetches these URLs itself, so internal hosts are refused up front
+async function assertFetchable(url: string): Promise<void> {
+  try {
+    await assertPublicUrl(url);
+  } catch (error) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error instanceof Error ? error.message : 'This URL cannot be fetched',
+    });
+  }
+}
+
+// Same hash the scanner stores in urls.normalized_hash
+function normalizedHash(normalize: UrlNormalizer, loc: string): string {
+  return createHash('sha256').update(normalize(loc)).digest('hex');
+}
@@ -0,0 +1,151 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+// ============ CONFIGURATION ============
+const DEFAULT_MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Loopback, private, carrier-grade NAT, link-local (cloud metadata),
+// documentation, benchmarking, multicast and reserved ranges
+const BLOCKED_IPV4: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+// ============ ADDRESS CHECKS ============
+/**
+ * Throws unless `url` is http(s) and its host resolves only to public
+ * addresses. Every record is checked, so a name with a single internal
+ * address is rejected too. Used before any request made for a user-supplied
+ * URL.
+ */
+export async function assertPublicUrl(url: string | URL): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Only http and https URLs can be fetched, got ${parsed.protocol}`);
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses = [host];
+  if (!isIP(host)) {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map(record => record.address);
+    } catch {
+      throw new Error(`Could not resolve ${host}`);
+    }
+  }
+
+  const blocked = addresses.find(address => !isPublicAddress(address));
+  if (blocked) {
+    throw new Error(`${host} resolves to a non-public address (${blocked})`);
+  }
+}
+
+export function isPublicAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4:
+      return isPublicIpv4(address);
+    case 6:
+      return isPublicIpv6(address);
+    default:
+      return false;
+  }
+}
+
+function isPublicIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return !BLOCKED_IPV4.some(([base, bits]) => {
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return ((value & mask) >>> 0) === ((ipv4ToNumber(base) & mask) >>> 0);
+  });
+}
+
+function isPublicIpv6(address: string): boolean {
+  const words = ipv6ToWords(address);
+  if (!words) return false;
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) reach IPv4 hosts
+  const embedsIpv4 =
+    (words.slice(0, 5).every(w => w === 0) && words[5] === 0xffff) ||
+    (words[0] === 0x64 && words[1] === 0xff9b && words.slice(2, 6).every(w => w === 0));
+  if (embedsIpv4) {
+    return isPublicIpv4(`${words[6] >> 8}.${words[6] & 0xff}.${words[7] >> 8}.${words[7] & 0xff}`);
+  }
+
+  if (words.slice(0, 7).every(w => w === 0) && words[7] <= 1) return false; // :: and ::1
+  if ((words[0] & 0xfe00) === 0xfc00) return false; // Unique local fc00::/7
+  if ((words[0] & 0xffc0) === 0xfe80) return false; // Link-local fe80::/10
+  if ((words[0] & 0xff00) === 0xff00) return false; // Multicast ff00::/8
+  if (words[0] === 0x2001 && words[1] === 0x0db8) return false; // Documentation
+  return true;
+}
+
+// ============ FETCHING ============
+/**
+ * fetch() for user-supplied URLs: redirects are followed by hand so that
+ * every hop passes assertPublicUrl, not only the first one.
+ */
+export async function fetchPublic(
+  url: string,
+  init: RequestInit = {},
+  maxRedirects = DEFAULT_MAX_REDIRECTS
+): Promise<Response> {
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(current);
+    const response = await fetch(current, { ...init, redirect: 'manual' });
+
+    const location = response.headers.get('location');
+    if (!REDIRECT_STATUSES.has(response.status) || !location) {
+      return response;
+    }
+
+    await response.body?.cancel().catch(() => undefined);
+    if (redirects >= maxRedirects) {
+      throw new Error(`More than ${maxRedirects} redirects`);
+    }
+    current = new URL(location, current).toString();
+  }
+}
+
+// ============ HELPERS ============
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => ((value << 8) | Number(octet)) >>> 0, 0);
+}
+
+// Eight 16-bit words; a trailing dotted quad counts as the last two
+function ipv6ToWords(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+  const quad = /(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (quad) {
+    const value = ipv4ToNumber(quad[1]);
+    text = `${text.slice(0, -quad[1].length)}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const headWords = head ? head.split(':') : [];
+  const tailWords = tail ? tail.split(':') : [];
+  const missing = 8 - headWords.length - tailWords.length;
+  if (tail === undefined ? missing !== 0 : missing < 0) return null;
+
+  return [...headWords, ...new Array(tail === undefined ? 0 : missing).fill('0'), ...tailWords]
+    .map(word => parseInt(word, 16));
+}
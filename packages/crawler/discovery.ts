@@ -0,0 +1,159 @@
+import type { DiscoveredSitemap } from '@repo/db/schema';
+import { assertPublicUrl, fetchPublic } from './address-guard';
+
+// ============ TYPES ============
+export interface DiscoveryOptions {
+  userAgent?: string;
+  timeoutMs?: number;
+}
+
+export interface DiscoveryResult {
+  origin: string;
+  robotsTxtFound: boolean;
+  candidates: DiscoveredSitemap[]; // robots.txt entries first, then well-known paths
+}
+
+// ============ CONFIGURATION ============
+const WELL_KNOWN_PATHS = ['/sitemap.xml', '/sitemap_index.xml', '/wp-sitemap.xml'];
+const DEFAULT_USER_AGENT = 'SitemapIndexerPro/2.0 (Enterprise Edition; +https://indexerpro.io/bot)';
+const DEFAULT_TIMEOUT_MS = 10000;
+const SNIFF_BYTES = 2048; // Enough to see the root element past the XML prolog and comments
+
+// ============ DISCOVERY ============
+// Sitemaps declared in robots.txt are what search engines use, so they are
+// listed first; well-known paths catch sites that never declared one. Throws
+// if the domain is not a public host.
+export async function discoverSitemaps(
+  domain: string,
+  options: DiscoveryOptions = {}
+): Promise<DiscoveryResult> {
+  const origin = toOrigin(domain);
+  await assertPublicUrl(origin);
+  const checkedAt = new Date().toISOString();
+
+  let robotsTxtFound = false;
+  let declared: string[] = [];
+  try {
+    const response = await request(`${origin}/robots.txt`, options);
+    if (response.ok) {
+      robotsTxtFound = true;
+      declared = parseRobotsSitemaps(await response.text());
+    }
+  } catch {
+    // Unreachable robots.txt: fall through to the well-known paths
+  }
+
+  const sources = new Map<string, DiscoveredSitemap['source']>();
+  for (const url of declared) {
+    sources.set(url, 'ROBOTS_TXT');
+  }
+  for (const path of WELL_KNOWN_PATHS) {
+    const url = `${origin}${path}`;
+    if (!sources.has(url)) sources.set(url, 'WELL_KNOWN');
+  }
+
+  const candidates = await Promise.all(
+    [...sources].map(async ([url, source]): Promise<DiscoveredSitemap> => {
+      const probe = await probeSitemap(url, options);
+      return { url, source, checkedAt, ...probe };
+    })
+  );
+
+  // Declared sitemaps are kept even when the probe fails so the broken
+  // declaration is visible; undeclared paths only count if they exist.
+  return {
+    origin,
+    robotsTxtFound,
+    candidates: candidates.filter(c => c.source === 'ROBOTS_TXT' || c.valid),
+  };
+}
+
+/** Extracts `Sitemap:` directives; they apply regardless of user-agent groups. */
+export function parseRobotsSitemaps(robotsTxt: string): string[] {
+  const found = new Set<string>();
+  for (const line of robotsTxt.split(/\r?\n/)) {
+    const match = /^\s*sitemap\s*:\s*(\S+)/i.exec(line.replace(/#.*$/, ''));
+    if (!match) continue;
+    try {
+      const url = new URL(match[1]);
+      if (url.protocol === 'http:' || url.protocol === 'https:') {
+        found.add(url.toString());
+      }
+    } catch {
+      // Relative or malformed entries are invalid per the protocol
+    }
+  }
+  return [...found];
+}
+
+// ============ PROBING ============
+async function probeSitemap(
+  url: string,
+  options: DiscoveryOptions
+): Promise<Pick<DiscoveredSitemap, 'status' | 'type' | 'valid' | 'error'>> {
+  try {
+    const response = await request(url, options);
+    if (!response.ok) {
+      await response.body?.cancel();
+      return { status: response.status, valid: false, error: `HTTP ${response.status}` };
+    }
+
+    // Compressed sitemaps cannot be sniffed without inflating; trust the status
+    const contentType = response.headers.get('content-type') ?? '';
+    if (url.endsWith('.gz') || contentType.includes('gzip')) {
+      await response.body?.cancel();
+      return { status: response.status, valid: true };
+    }
+
+    const type = sniffType(await readHead(response));
+    return type
+      ? { status: response.status, type, valid: true }
+      : { status: response.status, valid: false, error: 'Response is not a sitemap' };
+  } catch (error) {
+    return { status: null, valid: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+function sniffType(head: string): DiscoveredSitemap['type'] | null {
+  const text = head.replace(/^\uFEFF/, '').trimStart();
+  if (/<sitemapindex[\s>]/i.test(text)) return 'INDEX';
+  if (/<urlset[\s>]/i.test(text)) return 'URLSET';
+  if (/<rss[\s>]|<rdf:RDF[\s>]/i.test(text)) return 'RSS';
+  if (/<feed[\s>]/i.test(text)) return 'ATOM';
+  if (/^https?:\/\/\S+/i.test(text)) return 'TEXT';
+  return null;
+}
+
+// Reads only the first few KB; a large sitemap is fetched in full by the scanner later
+async function readHead(response: Response): Promise<string> {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let head = '';
+  try {
+    while (head.length < SNIFF_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      head += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+  return head;
+}
+
+// ============ HELPERS ============
+// robots.txt may declare sitemaps on any host, and any hop may redirect, so
+// every request goes through the address guard
+function request(url: string, options: DiscoveryOptions): Promise<Response> {
+  return fetchPublic(url, {
+    headers: { 'User-Agent': options.userAgent ?? DEFAULT_USER_AGENT },
+    signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+  });
+}
+
+// Project domains are stored with or without a scheme; https is assumed
+export function toOrigin(domain: string): string {
+  const value = domain.trim();
+  return new URL(value.includes('://') ? value : `https://${value}`).origin;
+}
@@ -0,0 +1,103 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkUrl, hasNoindex } from './health-check';
+
+const realFetch = globalThis.fetch;
+
+// Answers from a table of URL -> response; a request aborted by its signal
+// rejects like the real fetch does
+function mockFetch(routes: Record<string, { status: number; headers?: Record<string, string>; body?: string; delayMs?: number }>) {
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const route = routes[String(input)];
+    if (!route) throw new Error(`Unexpected request to ${String(input)}`);
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, route.delayMs ?? 0);
+      init?.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new Error('The operation was aborted due to timeout'));
+      });
+    });
+    return new Response(route.body ?? null, { status: route.status, headers: route.headers });
+  }) as typeof fetch;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('checkUrl', () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('does not count beforeRedirect waits against the next request', async () => {
+    mockFetch({
+      'http://93.184.216.34/old': { status: 301, headers: { location: '/new' } },
+      'http://93.184.216.34/new': { status: 200, headers: { 'content-type': 'text/plain' }, delayMs: 30 },
+    });
+
+    const result = await checkUrl('http://93.184.216.34/old', {
+      timeoutMs: 100,
+      beforeRedirect: async () => {
+        await sleep(150);
+        return true;
+      },
+    });
+
+    assert.equal(result.error, null);
+    assert.equal(result.finalStatus, 200);
+    assert.equal(result.finalUrl, 'http://93.184.216.34/new');
+    assert.ok(result.responseTimeMs < 150);
+  });
+
+  it('times out a single slow request', async () => {
+    mockFetch({ 'http://93.184.216.34/slow': { status: 200, delayMs: 500 } });
+
+    const result = await checkUrl('http://93.184.216.34/slow', { timeoutMs: 50 });
+
+    assert.equal(result.httpStatus, null);
+    assert.match(result.error!, /abort/i);
+  });
+
+  it('stops a chain that exceeds its overall budget', async () => {
+    mockFetch({
+      'http://93.184.216.34/a': { status: 302, headers: { location: '/b' }, delayMs: 40 },
+      'http://93.184.216.34/b': { status: 302, headers: { location: '/c' }, delayMs: 40 },
+      'http://93.184.216.34/c': { status: 200, delayMs: 40 },
+    });
+
+    const result = await checkUrl('http://93.184.216.34/a', { timeoutMs: 1000, chainTimeoutMs: 60 });
+
+    assert.notEqual(result.error, null);
+    assert.equal(result.httpStatus, 302);
+    assert.equal(result.finalStatus, null);
+  });
+
+  it('refuses to follow a redirect to a private address', async () => {
+    mockFetch({ 'http://93.184.216.34/': { status: 302, headers: { location: 'http://127.0.0.1/admin' } } });
+
+    const result = await checkUrl('http://93.184.216.34/');
+
+    assert.notEqual(result.error, null);
+    assert.equal(result.redirectChain?.hops.length, 1);
+  });
+
+  it('reports redirect loops', async () => {
+    mockFetch({
+      'http://93.184.216.34/a': { status: 301, headers: { location: '/b' } },
+      'http://93.184.216.34/b': { status: 301, headers: { location: '/a' } },
+    });
+
+    const result = await checkUrl('http://93.184.216.34/a');
+
+    assert.match(result.error!, /Redirect loop/);
+    assert.ok(result.redirectChain?.warnings.includes('REDIRECT_LOOP'));
+  });
+});
+
+describe('hasNoindex', () => {
+  it('applies unscoped and Google-scoped directives only', () => {
+    assert.equal(hasNoindex('noindex, nofollow'), true);
+    assert.equal(hasNoindex('googlebot: noindex'), true);
+    assert.equal(hasNoindex('otherbot: noindex'), false);
+    assert.equal(hasNoindex('unavailable_after: 2030-01-01, index'), false);
+  });
+});
@@ -0,0 +1,294 @@
+import type { UrlCanonical, RedirectChain, RedirectHop, RedirectWarning } from '@repo/db/schema';
+import { assertPublicUrl } from './address-guard';
+
+// ============ TYPES ============
+export interface HealthCheckOptions {
+  userAgent?: string;
+  timeoutMs?: number; // Per request
+  chainTimeoutMs?: number; // For all requests of the chain, not counting beforeRedirect
+  // Called before each redirect is followed, e.g. for robots.txt and per-host
+  // delays; false keeps the redirect itself as the final response
+  beforeRedirect?: (url: string) => Promise<boolean>;
+}
+
+export interface HealthCheckResult {
+  httpStatus: number | null; // Status of the URL itself; null when no response arrived
+  finalStatus: number | null; // Status at the end of the redirect chain
+  responseTimeMs: number; // Across all hops
+  finalUrl: string | null; // Set only when the request was redirected
+  redirectChain: RedirectChain | null; // Null when the URL answered directly
+  noindex: 'META' | 'HEADER' | null; // Where a noindex directive was found
+  canonicalLinks: CanonicalLinks | null; // Only read from successful responses
+  error: string | null; // Network, TLS or timeout failure, or a broken redirect chain
+}
+
+export interface CanonicalLinks {
+  html: string[]; // <link rel="canonical"> hrefs, resolved against the final URL
+  header: string[]; // Link: <...>; rel="canonical"
+}
+
+// ============ CONFIGURATION ============
+const DEFAULT_USER_AGENT = 'SitemapIndexerPro/2.0 (Enterprise Edition; +https://indexerpro.io/bot)';
+const DEFAULT_TIMEOUT_MS = 15000; // Per request
+const DEFAULT_CHAIN_TIMEOUT_MS = 30000;
+const MAX_REDIRECTS = 10; // Googlebot follows up to 10 hops
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const PERMANENT_REDIRECTS = new Set([301, 308]);
+const HEAD_BYTES = 64 * 1024; // Meta robots and canonical belong in <head>; the rest is not read
+
+// Directives scoped to another crawler (e.g. "otherbot: noindex") do not apply
+const APPLICABLE_AGENTS = new Set(['robots', 'googlebot', 'bingbot']);
+
+// ============ CHECK ============
+// Redirects are followed by hand so every hop, its status and its Location
+// header are recorded, and every request passes the address guard. Each
+// request gets its own timeout, started after any beforeRedirect wait, so a
+// polite per-host delay cannot abort the hop that follows it.
+export async function checkUrl(loc: string, options: HealthCheckOptions = {}): Promise<HealthCheckResult> {
+  const startedAt = Date.now();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const chainTimeoutMs = options.chainTimeoutMs ?? DEFAULT_CHAIN_TIMEOUT_MS;
+  const hops: RedirectHop[] = [];
+  const warnings: RedirectWarning[] = [];
+  const visited = new Set<string>();
+  let waitedMs = 0; // Spent in beforeRedirect, not in requests
+
+  const failure = (error: string): HealthCheckResult => ({
+    httpStatus: hops[0]?.status ?? null,
+    finalStatus: null,
+    responseTimeMs: Date.now() - startedAt - waitedMs,
+    finalUrl: null,
+    redirectChain: hops.length > 0 ? { hops, warnings: chainWarnings(hops, warnings) } : null,
+    noindex: null,
+    canonicalLinks: null,
+    error,
+  });
+
+  let current = loc;
+  let response: Response;
+  for (;;) {
+    visited.add(current);
+    const chainLeftMs = chainTimeoutMs - (Date.now() - startedAt - waitedMs);
+    if (chainLeftMs <= 0) {
+      return failure(`Redirect chain took longer than ${chainTimeoutMs}ms`);
+    }
+    try {
+      await assertPublicUrl(current);
+      response = await fetch(current, {
+        headers: {
+          'User-Agent': options.userAgent ?? DEFAULT_USER_AGENT,
+          'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+        },
+        redirect: 'manual',
+        signal: AbortSignal.timeout(Math.min(timeoutMs, chainLeftMs)),
+      });
+    } catch (error) {
+      return failure(error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    if (!REDIRECT_STATUSES.has(response.status)) break;
+
+    const location = response.headers.get('location');
+    await response.body?.cancel().catch(() => undefined);
+    hops.push({ url: current, status: response.status, location });
+
+    const next = location ? resolveUrl(location, current) : null;
+    if (!next) {
+      // Nothing to follow: the 3xx itself is the final response
+      warnings.push('MISSING_LOCATION');
+      break;
+    }
+    if (visited.has(next)) {
+      warnings.push('REDIRECT_LOOP');
+      return failure(`Redirect loop at ${next}`);
+    }
+    if (hops.length >= MAX_REDIRECTS) {
+      warnings.push('TOO_MANY_REDIRECTS');
+      return failure(`More than ${MAX_REDIRECTS} redirects`);
+    }
+    if (options.beforeRedirect) {
+      const waitStartedAt = Date.now();
+      const follow = await options.beforeRedirect(next);
+      waitedMs += Date.now() - waitStartedAt;
+      if (!follow) break;
+    }
+    current = next;
+  }
+
+  const responseTimeMs = Date.now() - startedAt - waitedMs;
+  const redirected = hops.length > 0 && current !== loc;
+
+  let noindex: HealthCheckResult['noindex'] = null;
+  if (hasNoindex(response.headers.get('x-robots-tag'))) {
+    noindex = 'HEADER';
+  }
+
+  let canonicalLinks: CanonicalLinks | null = null;
+  if (response.ok) {
+    canonicalLinks = {
+      html: [],
+      header: resolveAll(parseLinkHeaderCanonicals(response.headers.get('link')), current),
+    };
+  }
+
+  const contentType = response.headers.get('content-type') ?? '';
+  if (response.ok && /html/i.test(contentType)) {
+    const head = await readHead(response);
+    if (!noindex && findMetaRobots(head).some(hasNoindex)) {
+      noindex = 'META';
+    }
+    canonicalLinks!.html = resolveAll(findCanonicalLinks(head), current);
+  } else {
+    await response.body?.cancel().catch(() => undefined);
+  }
+
+  return {
+    httpStatus: hops[0]?.status ?? response.status,
+    finalStatus: response.status,
+    responseTimeMs,
+    finalUrl: redirected ? current : null,
+    redirectChain: hops.length > 0 ? { hops, warnings: chainWarnings(hops, warnings) } : null,
+    noindex,
+    canonicalLinks,
+    error: null,
+  };
+}
+
+function chainWarnings(hops: RedirectHop[], warnings: RedirectWarning[]): RedirectWarning[] {
+  const all = [...warnings];
+  if (hops.length > 1) all.push('REDIRECT_CHAIN');
+  if (hops.some(hop => !PERMANENT_REDIRECTS.has(hop.status))) all.push('TEMPORARY_REDIRECT');
+  return all;
+}
+
+// ============ ROBOTS DIRECTIVES ============
+/**
+ * True if a meta robots content or X-Robots-Tag value contains `noindex` (or
+ * `none`) for all crawlers or for Google/Bing. Header values may scope
+ * directives to a crawler ("googlebot: noindex, nofollow"); the scope runs
+ * until the next "name:" prefix.
+ */
+export function hasNoindex(value: string | null | undefined): boolean {
+  if (!value) return false;
+
+  let agent = 'robots';
+  for (const part of value.toLowerCase().split(',')) {
+    let directive = part.trim();
+    const scoped = /^([a-z][a-z0-9_-]*)\s*:\s*(.*)$/.exec(directive);
+    // "unavailable_after: <date>" is a directive with a value, not a scope
+    if (scoped && scoped[1] !== 'unavailable_after') {
+      agent = scoped[1];
+      directive = scoped[2].trim();
+    }
+    if ((directive === 'noindex' || directive === 'none') && APPLICABLE_AGENTS.has(agent)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** Content of every <meta name="robots|googlebot|bingbot"> tag. */
+export function findMetaRobots(html: string): string[] {
+  const contents: string[] = [];
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const name = attribute(tag, 'name')?.toLowerCase();
+    const content = attribute(tag, 'content');
+    if (name && APPLICABLE_AGENTS.has(name) && content) {
+      contents.push(content);
+    }
+  }
+  return contents;
+}
+
+// ============ CANONICAL ============
+/** hrefs of every <link rel="canonical">; rel may list several tokens. */
+export function findCanonicalLinks(html: string): string[] {
+  const hrefs: string[] = [];
+  for (const [tag] of html.matchAll(/<link\b[^>]*>/gi)) {
+    const rel = attribute(tag, 'rel')?.toLowerCase().split(/\s+/) ?? [];
+    const href = attribute(tag, 'href');
+    if (rel.includes('canonical') && href) {
+      hrefs.push(href.trim());
+    }
+  }
+  return hrefs;
+}
+
+/** Targets of `rel="canonical"` entries in an HTTP Link header (RFC 8288). */
+export function parseLinkHeaderCanonicals(value: string | null | undefined): string[] {
+  if (!value) return [];
+  const targets: string[] = [];
+  for (const [, target, params] of value.matchAll(/<([^>]*)>((?:\s*;\s*[^;,]+)*)/g)) {
+    const rel = /;\s*rel\s*=\s*(?:"([^"]*)"|([^\s;,]+))/i.exec(params);
+    const tokens = (rel?.[1] ?? rel?.[2] ?? '').toLowerCase().split(/\s+/);
+    if (tokens.includes('canonical')) {
+      targets.push(target.trim());
+    }
+  }
+  return targets;
+}
+
+/**
+ * Compares the declared canonicals with the sitemap URL, using the project's
+ * normalization so that e.g. a trailing slash is not reported as a mismatch.
+ * Search engines ignore canonicals that contradict each other, hence CONFLICT.
+ */
+export function assessCanonical(
+  loc: string,
+  links: CanonicalLinks,
+  normalize: (url: string) => string
+): UrlCanonical {
+  const checkedAt = new Date().toISOString();
+  const all = [...links.header, ...links.html];
+  if (all.length === 0) {
+    return { url: null, source: null, status: 'MISSING', checkedAt };
+  }
+
+  const url = links.header[0] ?? links.html[0];
+  const source = links.header.length === 0
+    ? 'HTML'
+    : links.html.length === 0 ? 'HEADER' : 'BOTH';
+
+  if (new Set(all.map(normalize)).size > 1) {
+    return { url, source, status: 'CONFLICT', checkedAt };
+  }
+  return { url, source, status: normalize(url) === normalize(loc) ? 'SELF' : 'MISMATCH', checkedAt };
+}
+
+// ============ HELPERS ============
+// Relative canonicals and Location headers are valid and resolve against the
+// URL of the response that sent them
+function resolveUrl(href: string, base: string): string | null {
+  try {
+    const url = new URL(href, base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function resolveAll(hrefs: string[], base: string): string[] {
+  return hrefs.flatMap(href => resolveUrl(href, base) ?? []);
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i').exec(tag);
+  return match ? match[2] ?? match[3] ?? match[4] : undefined;
+}
+
+async function readHead(response: Response): Promise<string> {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let head = '';
+  try {
+    while (head.length < HEAD_BYTES && !/<\/head\s*>|<body[\s>]/i.test(head)) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      head += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+  return head;
+}
@@ -0,0 +1,96 @@
+import type { NormalizationSettings } from '@repo/db/schema';
+
+// ============ CONFIGURATION ============
+// Parameters that only identify a campaign or click, never different content
+export const DEFAULT_TRACKING_PARAMS = [
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_term',
+  'utm_content',
+  'utm_id',
+  'gclid',
+  'dclid',
+  'gbraid',
+  'wbraid',
+  'fbclid',
+  'msclkid',
+  'yclid',
+  'mc_cid',
+  'mc_eid',
+  '_ga',
+  '_gl',
+];
+
+const DEFAULTS: Required<Omit<NormalizationSettings, 'trackingParams'>> = {
+  lowercaseHost: true,
+  removeDefaultPort: true,
+  removeFragment: true,
+  removeTrailingSlash: true,
+  stripTrackingParams: true,
+  sortQueryParams: false,
+};
+
+// ============ NORMALIZATION ============
+export type UrlNormalizer = (loc: string) => string;
+
+/**
+ * Builds the comparison form used for duplicate detection. The stored `loc` is
+ * never rewritten; URLs that are not absolute are returned unchanged.
+ */
+export function createNormalizer(settings: NormalizationSettings | null | undefined): UrlNormalizer {
+  const options = { ...DEFAULTS, ...settings };
+  const trackingParams = new Set(
+    [...DEFAULT_TRACKING_PARAMS, ...(settings?.trackingParams ?? [])].map(p => p.toLowerCase())
+  );
+
+  return (loc: string) => {
+    let url: URL;
+    try {
+      url = new URL(loc.trim());
+    } catch {
+      return loc;
+    }
+
+    // WHATWG URL already lowercases the host and drops default ports; the
+    // options exist to opt out of that, so undo it from the raw string.
+    let host = url.host;
+    if (!options.lowercaseHost || !options.removeDefaultPort) {
+      const rawAuthority = /^[a-z][a-z0-9+.-]*:\/\/([^/?#]*)/i.exec(loc.trim())?.[1] ?? host;
+      const rawHost = rawAuthority.replace(/^[^@]*@/, '');
+      host = options.lowercaseHost ? rawHost.toLowerCase() : rawHost;
+      if (options.removeDefaultPort) {
+        host = host.replace(url.protocol === 'https:' ? /:443$/ : /:80$/, '');
+      }
+    }
+
+    // Query pairs are filtered as raw strings: re-serializing through
+    // URLSearchParams would change their encoding ('%20' to '+', 'a' to 'a=')
+    let pairs = url.search.slice(1).split('&').filter(Boolean);
+    if (options.stripTrackingParams) {
+      pairs = pairs.filter(pair => !trackingParams.has(paramName(pair)));
+    }
+    if (options.sortQueryParams) {
+      pairs.sort((a, b) => paramName(a).localeCompare(paramName(b)));
+    }
+    const search = pairs.length > 0 ? `?${pairs.join('&')}` : '';
+
+    let pathname = url.pathname;
+    if (options.removeTrailingSlash && pathname.length > 1 && pathname.endsWith('/')) {
+      pathname = pathname.replace(/\/+$/, '') || '/';
+    }
+
+    const hash = options.removeFragment ? '' : url.hash;
+    return `${url.protocol}//${host}${pathname}${search}${hash}`;
+  };
+}
+
+// ============ HELPERS ============
+function paramName(pair: string): string {
+  const name = pair.split('=', 1)[0];
+  try {
+    return decodeURIComponent(name.replace(/\+/g, ' ')).toLowerCase();
+  } catch {
+    return name.toLowerCase();
+  }
+}
@@ -0,0 +1,232 @@
+import { fetchPublic } from './address-guard';
+
+// ============ TYPES ============
+export interface RobotsRule {
+  type: 'allow' | 'disallow';
+  pattern: string;
+  line: number; // 1-based line in robots.txt
+}
+
+interface CompiledRule extends RobotsRule {
+  regex: RegExp;
+  specificity: number; // Pattern length; the longest match wins
+}
+
+interface RobotsGroup {
+  agents: string[]; // Lowercased product tokens, or '*'
+  rules: CompiledRule[];
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+}
+
+export interface RobotsDecision {
+  allowed: boolean;
+  rule: RobotsRule | null; // The deciding rule; null when no rule matched
+  agent: string | null; // Product token or '*' of the group that applied; null when none did
+}
+
+export interface RobotsFetchResult {
+  // OK: parsed as fetched. NOT_FOUND: 4xx, everything is allowed.
+  // UNAVAILABLE: 5xx or unreachable, the file's rules are unknown.
+  status: 'OK' | 'NOT_FOUND' | 'UNAVAILABLE';
+  httpStatus: number | null;
+  text: string;
+}
+
+export interface RobotsFetchOptions {
+  userAgent?: string;
+  timeoutMs?: number;
+}
+
+// ============ CONFIGURATION ============
+// Product tokens the crawlers match groups by (RFC 9309 section 2.2.1)
+export const ROBOTS_AGENTS = {
+  GOOGLEBOT: 'Googlebot',
+  BINGBOT: 'Bingbot',
+  SELF: 'SitemapIndexerPro',
+} as const;
+
+const DEFAULT_USER_AGENT = 'SitemapIndexerPro/2.0 (Enterprise Edition; +https://indexerpro.io/bot)';
+const DEFAULT_TIMEOUT_MS = 10000;
+const MAX_BYTES = 500 * 1024; // Google ignores content past 500 KiB
+
+const EMPTY: RobotsTxt = { groups: [] };
+const ALLOW_ALL: RobotsDecision = { allowed: true, rule: null, agent: null };
+
+// ============ PARSING ============
+// Consecutive user-agent lines open a group and the rules after them belong to
+// it; rules before the first user-agent line apply to nobody. Unknown keys
+// (sitemap, crawl-delay, ...) are skipped.
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/).forEach((raw, index) => {
+    const match = /^\s*([a-z-]+)\s*:\s*(.*?)\s*$/i.exec(raw.replace(/#.*$/, ''));
+    if (!match) return;
+
+    const key = match[1].toLowerCase();
+    const value = match[2];
+
+    if (key === 'user-agent') {
+      if (!collectingAgents || !current) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+        collectingAgents = true;
+      }
+      current.agents.push(value === '*' ? '*' : productToken(value));
+      return;
+    }
+
+    if (key === 'allow' || key === 'disallow') {
+      collectingAgents = false;
+      // An empty Disallow allows everything, which is the default anyway
+      if (current && value) {
+        current.rules.push(compileRule({ type: key, pattern: value, line: index + 1 }));
+      }
+    }
+  });
+
+  return { groups };
+}
+
+// ============ EVALUATION ============
+/**
+ * Decides whether `userAgent` may fetch `url`. Groups naming the crawler's
+ * product token are merged; without one the `*` groups apply. Among matching
+ * rules the longest pattern wins and Allow wins a tie, as Google and Bing do.
+ */
+export function evaluateRobots(robots: RobotsTxt, userAgent: string, url: string | URL): RobotsDecision {
+  let target: URL;
+  try {
+    target = typeof url === 'string' ? new URL(url) : url;
+  } catch {
+    return ALLOW_ALL;
+  }
+
+  const path = normalizePath(target.pathname + target.search);
+  if (path === '/robots.txt') return ALLOW_ALL;
+
+  const token = productToken(userAgent);
+  let groups = robots.groups.filter(group => group.agents.includes(token));
+  let agent = groups.length > 0 ? token : null;
+  if (groups.length === 0) {
+    groups = robots.groups.filter(group => group.agents.includes('*'));
+    agent = groups.length > 0 ? '*' : null;
+  }
+
+  let best: CompiledRule | null = null;
+  for (const rule of groups.flatMap(group => group.rules)) {
+    if (!rule.regex.test(path)) continue;
+    if (
+      !best ||
+      rule.specificity > best.specificity ||
+      (rule.specificity === best.specificity && rule.type === 'allow')
+    ) {
+      best = rule;
+    }
+  }
+
+  if (!best) return { allowed: true, rule: null, agent };
+  const { type, pattern, line } = best;
+  return { allowed: type === 'allow', rule: { type, pattern, line }, agent };
+}
+
+export function describeRobotsRule(rule: RobotsRule): string {
+  const directive = rule.type === 'allow' ? 'Allow' : 'Disallow';
+  return `${directive}: ${rule.pattern} (line ${rule.line})`;
+}
+
+// ============ FETCHING ============
+// RFC 9309 section 2.3.1: a 4xx means there are no restrictions; a 5xx (and
+// 429) or a network failure means the rules are unknown, and the caller
+// decides whether to fall back to a cached copy. Non-public hosts are never
+// requested and count as unavailable.
+export async function fetchRobotsTxt(
+  origin: string,
+  options: RobotsFetchOptions = {}
+): Promise<RobotsFetchResult> {
+  try {
+    const response = await fetchPublic(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': options.userAgent ?? DEFAULT_USER_AGENT },
+      signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+
+    if (response.ok) {
+      return { status: 'OK', httpStatus: response.status, text: await readLimited(response) };
+    }
+
+    await response.body?.cancel().catch(() => undefined);
+    if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+      return { status: 'NOT_FOUND', httpStatus: response.status, text: '' };
+    }
+    return { status: 'UNAVAILABLE', httpStatus: response.status, text: '' };
+  } catch {
+    return { status: 'UNAVAILABLE', httpStatus: null, text: '' };
+  }
+}
+
+/** Rules for a fetch result; null when they are unknown (UNAVAILABLE). */
+export function robotsFromFetch(result: RobotsFetchResult): RobotsTxt | null {
+  switch (result.status) {
+    case 'OK':
+      return parseRobotsTxt(result.text);
+    case 'NOT_FOUND':
+      return EMPTY;
+    default:
+      return null;
+  }
+}
+
+// ============ HELPERS ============
+// `*` matches any sequence and a trailing `$` anchors the end; everything else
+// is a literal prefix of the path.
+function compileRule(rule: RobotsRule): CompiledRule {
+  const pattern = normalizePath(rule.pattern);
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return {
+    ...rule,
+    regex: new RegExp(`^${source}${anchored ? '$' : ''}`),
+    specificity: pattern.length,
+  };
+}
+
+// Percent-escapes are compared case-insensitively and non-ASCII characters in
+// patterns are encoded, so "/café" matches the URL's "/caf%C3%A9"
+function normalizePath(value: string): string {
+  return value
+    .replace(/[^\x00-\x7F]/gu, char => encodeURIComponent(char))
+    .replace(/%[0-9a-f]{2}/gi, escape => escape.toUpperCase());
+}
+
+// "Googlebot/2.1 (+http://www.google.com/bot.html)" -> "googlebot"
+function productToken(userAgent: string): string {
+  return (/^[a-z_-]+/i.exec(userAgent.trim())?.[0] ?? userAgent.trim()).toLowerCase();
+}
+
+async function readLimited(response: Response): Promise<string> {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let bytes = 0;
+  try {
+    while (bytes < MAX_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytes += value.byteLength;
+      text += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+  return text;
+}
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileUrlRules, unsafeRegexReason, validateUrlRule } from './url-rules';
+
+describe('unsafeRegexReason', () => {
+  it('rejects adjacent unbounded repetitions that can match the same text', () => {
+    for (const pattern of ['.*.*=x', '.*.*.*.*=x', '\\S+\\S+', '[a-z]+\\w*', '.*-?.*', '(?:.*)+?.*']) {
+      assert.notEqual(unsafeRegexReason(pattern), null, pattern);
+    }
+  });
+
+  it('rejects chains of more than two overlapping repetitions', () => {
+    for (const pattern of ['.*a.*b.*', '/.*/.*/.*=x', '\\S+a\\S+b\\S+']) {
+      assert.notEqual(unsafeRegexReason(pattern), null, pattern);
+    }
+  });
+
+  it('rejects nested and alternating repetition', () => {
+    for (const pattern of ['(a|a)*', '(a+)+', '(a|ab)*', '((ab)*)+']) {
+      assert.notEqual(unsafeRegexReason(pattern), null, pattern);
+    }
+  });
+
+  it('rejects backreferences and too many quantifiers', () => {
+    assert.notEqual(unsafeRegexReason('(a)\\1'), null);
+    assert.notEqual(unsafeRegexReason('a+b'.repeat(26)), null);
+  });
+
+  it('accepts repetitions separated by text they cannot match', () => {
+    for (const pattern of [
+      '^/blog/.*$',
+      '/(en|de)/products/\\d+',
+      '^/[^/]+/[^/]+$',
+      '\\d+-\\w+',
+      '[?&]utm_[a-z]+=',
+      '^https://example\\.com/.*\\?page=\\d+$',
+      '/tag/.*',
+    ]) {
+      assert.equal(unsafeRegexReason(pattern), null, pattern);
+    }
+  });
+
+  it('finishes the patterns it accepts quickly on long URLs', () => {
+    const url = `https://example.com/${'a/'.repeat(150)}?q=${'='.repeat(10)}`;
+    for (const pattern of ['.*=.*x', '/a.*/.*y$', '^/blog/.*$']) {
+      assert.equal(unsafeRegexReason(pattern), null, pattern);
+      const started = Date.now();
+      new RegExp(pattern).test(url);
+      assert.ok(Date.now() - started < 200, pattern);
+    }
+  });
+});
+
+describe('validateUrlRule', () => {
+  it('reports invalid and unsafe regular expressions', () => {
+    assert.match(validateUrlRule({ action: 'EXCLUDE', type: 'REGEX', pattern: '(' })!, /Invalid regular expression/);
+    assert.match(validateUrlRule({ action: 'EXCLUDE', type: 'REGEX', pattern: '.*.*=x' })!, /Adjacent repetitions/);
+    assert.equal(validateUrlRule({ action: 'EXCLUDE', type: 'GLOB', pattern: '/blog/**' }), null);
+  });
+
+  it('rejects empty patterns', () => {
+    assert.equal(validateUrlRule({ action: 'EXCLUDE', type: 'PREFIX', pattern: '  ' }), 'Pattern must not be empty');
+  });
+});
+
+describe('compileUrlRules', () => {
+  it('skips unsafe regular expressions instead of running them', () => {
+    const rules = compileUrlRules({ urlRules: [{ action: 'EXCLUDE', type: 'REGEX', pattern: '.*.*.*.*=x' }] });
+    assert.equal(rules.isEmpty, true);
+  });
+});
@@ -0,0 +1,308 @@
+import type { ProjectSettings, UrlRule } from '@repo/db/schema';
+
+// ============ TYPES ============
+export interface RuleDecision {
+  excluded: boolean;
+  rule: string | null; // Description of the matching rule, if any
+}
+
+export interface UrlRuleSet {
+  evaluate: (loc: string) => RuleDecision;
+  readonly isEmpty: boolean;
+}
+
+interface CompiledRule {
+  action: UrlRule['action'];
+  description: string;
+  matches: (url: URL) => boolean;
+}
+
+const NO_MATCH: RuleDecision = { excluded: false, rule: null };
+
+// ============ CONFIGURATION ============
+const MAX_REGEX_REPETITIONS = 25; // Quantifiers per pattern, as in safe-regex
+const MAX_OVERLAPPING_REPETITIONS = 2; // .*a.* is fine, .*a.*b.* is cubic
+
+// Every Latin-1 character plus a few beyond, for comparing character sets
+const OVERLAP_SAMPLE = [
+  ...Array.from({ length: 256 }, (_, code) => String.fromCharCode(code)),
+  '\u0100', '\u2028', '\u4e2d', '\ufeff',
+];
+
+// ============ COMPILATION ============
+// Rules are evaluated in order and the first match wins; URLs no rule matches
+// are included. Legacy `excludePatterns` run after the ordered rules as glob
+// excludes, so existing projects keep their behavior.
+export function compileUrlRules(settings: ProjectSettings | null | undefined): UrlRuleSet {
+  const rules: UrlRule[] = [
+    ...(settings?.urlRules ?? []),
+    ...(settings?.excludePatterns ?? []).map(pattern => ({
+      action: 'EXCLUDE' as const,
+      type: 'GLOB' as const,
+      pattern,
+    })),
+  ];
+
+  const compiled = rules.flatMap(rule => {
+    const matcher = compileMatcher(rule);
+    return matcher ? [{ action: rule.action, description: describeRule(rule), matches: matcher }] : [];
+  });
+
+  return {
+    evaluate(loc: string): RuleDecision {
+      if (compiled.length === 0) return NO_MATCH;
+
+      let url: URL;
+      try {
+        url = new URL(loc);
+      } catch {
+        return NO_MATCH; // Malformed URLs are reported by the sitemap lint instead
+      }
+
+      const match = compiled.find(rule => rule.matches(url));
+      return match
+        ? { excluded: match.action === 'EXCLUDE', rule: match.description }
+        : NO_MATCH;
+    },
+    get isEmpty() {
+      return compiled.length === 0;
+    },
+  };
+}
+
+/** Returns an error message for a rule that cannot be compiled, or null. */
+export function validateUrlRule(rule: UrlRule): string | null {
+  if (!rule.pattern.trim()) {
+    return 'Pattern must not be empty';
+  }
+  if (rule.type === 'REGEX') {
+    try {
+      new RegExp(rule.pattern);
+    } catch (error) {
+      return `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    return unsafeRegexReason(rule.pattern);
+  }
+  return null;
+}
+
+interface GroupState {
+  start: number; // Index of the '('
+  lookaround: boolean; // Zero-width, so it leaves the sequence around it alone
+  repeats: boolean; // Its content repeats
+  alternates: boolean;
+  inherited: OpenRepetition[]; // Repetitions open when the group started
+  open: OpenRepetition[]; // Open at the current point of the current branch
+  ends: OpenRepetition[]; // Open at the end of earlier branches
+}
+
+// An unbounded repetition that later atoms may still compete with for the
+// same characters
+interface OpenRepetition {
+  atom: string;
+  chain: number; // Overlapping repetitions up to and including this one
+  adjacent: boolean; // Nothing mandatory has been matched since it
+}
+
+/**
+ * Rejects patterns that can backtrack catastrophically, since rules run
+ * against every URL in the API and the workers: a repeated group that itself
+ * repeats or alternates (`(a+)+`, `(a|ab)*`), unbounded repetitions that can
+ * split the same text between them (`.*.*`, `\S+-?\S+`) or chain through it
+ * (`.*a.*b.*c`, polynomial in the URL length), backreferences, and more than
+ * MAX_REGEX_REPETITIONS quantifiers. Returns null for a safe pattern.
+ */
+export function unsafeRegexReason(pattern: string): string | null {
+  const newGroup = (start: number, lookaround: boolean, open: OpenRepetition[]): GroupState => ({
+    start, lookaround, repeats: false, alternates: false, inherited: open, open, ends: [],
+  });
+  const groups: GroupState[] = [newGroup(-1, false, [])];
+  let repetitions = 0;
+
+  for (let i = 0; i < pattern.length; ) {
+    const group = groups[groups.length - 1];
+    const char = pattern[i];
+
+    if (char === '|') {
+      group.alternates = true;
+      group.ends.push(...group.open);
+      group.open = group.inherited;
+      i++;
+      continue;
+    }
+    if (char === '(') {
+      const prefix = /^\((?:\?(?::|=|!|<=|<!|<[A-Za-z_$][\w$]*>))?/.exec(pattern.slice(i))![0];
+      groups.push(newGroup(i, /^\(\?(?:=|!|<=|<!)/.test(prefix), group.open));
+      i += prefix.length;
+      continue;
+    }
+    if (char === '^' || char === '$' || (char === '\\' && /[bB]/.test(pattern[i + 1] ?? ''))) {
+      i += char === '\\' ? 2 : 1; // Anchors match no characters
+      continue;
+    }
+
+    // One atom: a closed group, an escape, a character class or a character
+    let atomStart = i;
+    let closed: GroupState | null = null;
+    if (char === ')') {
+      closed = groups.length > 1 ? groups.pop()! : null;
+      atomStart = closed?.start ?? i;
+      i++;
+    } else if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) {
+        return 'Backreferences are not allowed in regular expression rules';
+      }
+      i += /^\\(?:x[0-9a-fA-F]{2}|u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|[pP]\{[^}]*\}|c[A-Za-z]|[^])/.exec(pattern.slice(i))![0].length;
+    } else if (char === '[') {
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+      i++;
+    } else {
+      i++;
+    }
+    const atom = pattern.slice(atomStart, i);
+
+    const quantifier = /^(?:([*+?])|\{(\d+)(?:(,)(\d*))?\})\??/.exec(pattern.slice(i));
+    let min = 1;
+    let max = 1;
+    if (quantifier) {
+      const [, symbol, low, comma, high] = quantifier;
+      min = symbol ? (symbol === '+' ? 1 : 0) : Number(low);
+      max = symbol ? (symbol === '?' ? 1 : Infinity) : !comma ? Number(low) : high ? Number(high) : Infinity;
+      i += quantifier[0].length;
+    }
+    const parent = groups[groups.length - 1];
+
+    if (max > 1) {
+      repetitions++;
+      if (closed && (closed.repeats || closed.alternates)) {
+        return 'Nested or alternating repetition such as (a+)+ or (a|b)* can make matching hang';
+      }
+      parent.repeats = true;
+    }
+    if (closed?.repeats) {
+      // Repetition inside a group also counts for the groups around it
+      parent.repeats = true;
+    }
+    if (closed?.lookaround) continue;
+
+    if (closed && !quantifier) {
+      // An unquantified group continues the sequence it sits in
+      parent.open = [...closed.ends, ...closed.open];
+      continue;
+    }
+
+    let open = parent.open;
+    if (max === Infinity) {
+      const competing = open.filter(previous => overlaps(previous.atom, atom));
+      if (competing.some(previous => previous.adjacent)) {
+        return 'Adjacent repetitions that can match the same text, such as .*.* or \\S+\\S+, can make matching hang';
+      }
+      const chain = Math.max(0, ...competing.map(previous => previous.chain)) + 1;
+      if (chain > MAX_OVERLAPPING_REPETITIONS) {
+        return `More than ${MAX_OVERLAPPING_REPETITIONS} repetitions that can match the same text, such as .*a.*b.*, can make matching hang`;
+      }
+      if (min > 0) open = passMandatory(open, atom);
+      open = [...open, { atom, chain, adjacent: true }];
+    } else if (min > 0) {
+      open = passMandatory(open, atom);
+    }
+    parent.open = closed ? [...open, ...closed.ends, ...closed.open] : open;
+  }
+
+  if (repetitions > MAX_REGEX_REPETITIONS) {
+    return `At most ${MAX_REGEX_REPETITIONS} quantifiers are allowed in a regular expression rule`;
+  }
+  return null;
+}
+
+// A mandatory atom ends the repetitions that cannot match its characters;
+// the others could still have consumed them, so they stay open
+function passMandatory(open: OpenRepetition[], atom: string): OpenRepetition[] {
+  return open
+    .filter(previous => overlaps(previous.atom, atom))
+    .map(previous => ({ ...previous, adjacent: false }));
+}
+
+// Whether two atoms can match a common character, tried on a sample of
+// characters. Groups may match several characters and always count as
+// overlapping.
+function overlaps(a: string, b: string): boolean {
+  const matchA = singleCharMatcher(a);
+  const matchB = singleCharMatcher(b);
+  if (!matchA || !matchB) return true;
+  return OVERLAP_SAMPLE.some(char => matchA.test(char) && matchB.test(char));
+}
+
+function singleCharMatcher(atom: string): RegExp | null {
+  if (atom.startsWith('(')) return null;
+  try {
+    return new RegExp(`^(?:${atom})$`);
+  } catch {
+    return null;
+  }
+}
+
+export function describeRule(rule: UrlRule): string {
+  return `${rule.action} ${rule.type} ${rule.pattern}`;
+}
+
+// ============ MATCHERS ============
+// Patterns starting with '/' are matched against path + query, others against
+// the full URL, so "/blog/*" and "https://shop.example.com/*" both work.
+// Rules that fail validation, including unsafe regexes saved before the
+// check existed, are skipped.
+function compileMatcher(rule: UrlRule): ((url: URL) => boolean) | null {
+  if (validateUrlRule(rule)) return null;
+
+  switch (rule.type) {
+    case 'GLOB': {
+      const regex = globToRegExp(rule.pattern);
+      return url => regex.test(subject(url, rule.pattern));
+    }
+    case 'REGEX': {
+      const regex = new RegExp(rule.pattern);
+      return url => regex.test(url.href);
+    }
+    case 'PREFIX':
+      return url => subject(url, rule.pattern).startsWith(rule.pattern);
+    case 'QUERY_PARAM': {
+      // "name" matches the parameter with any value, "name=value" an exact value
+      const [name, value] = splitOnce(rule.pattern, '=');
+      return url => value === undefined
+        ? url.searchParams.has(name)
+        : url.searchParams.getAll(name).includes(value);
+    }
+    default:
+      return null;
+  }
+}
+
+function subject(url: URL, pattern: string): string {
+  return pattern.startsWith('/') ? url.pathname + url.search : url.href;
+}
+
+// `**` matches anything, `*` anything but '/', `?` one character except '/'
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function splitOnce(value: string, separator: string): [string, string | undefined] {
+  const index = value.indexOf(separator);
+  return index === -1 ? [value, undefined] : [value.slice(0, index), value.slice(index + 1)];
+}
@@ -10,6 +10,7 @@ import {
   pgEnum,
   index,
   uniqueIndex,
+  unique,
   decimal
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
@@ -43,7 +44,10 @@ export const jobTypeEnum = pgEnum('job_type', [
   'INCREMENTAL_SYNC',
   'GOOGLE_SUBMISSION',
   'INDEXNOW_SUBMISSION',
-  'STATUS_CHECK'
+  'STATUS_CHECK',
+  'HEALTH_CHECK',
+  'NOTIFICATION_SYNC',
+  'GSC_SITEMAP_SYNC'
 ]);
 export const searchEngineEnum = pgEnum('search_engine', [
   'GOOGLE',
@@ -94,7 +98,7 @@ export const projects = pgTable('projects', {
   organizationId: uuid('organization_id').references(() => organizations.id, { onDelete: 'cascade' }).notNull(),
   name: varchar('name', { length: 255 }).notNull(),
   domain: varchar('domain', { length: 255 }).notNull(),
-  sitemapUrl: text('sitemap_url').notNull(),
+  sitemapUrl: text('sitemap_url').notNull(), // Primary root; seeded as the first sitemap source
   isActive: boolean('is_active').default(true).notNull(),
   settings: jsonb('settings').default({}).$type<ProjectSettings>(),
   
@@ -106,6 +110,10 @@ export const projects = pgTable('projects', {
   
   lastScanAt: timestamp('last_scan_at', { withTimezone: true }),
   lastSubmissionAt: timestamp('last_submission_at', { withTimezone: true }),
+  
+  // Sitemap discovery (robots.txt and well-known paths), refreshed periodically
+  discoveredSitemaps: jsonb('discovered_sitemaps').default([]).$type<DiscoveredSitemap[]>(),
+  sitemapsDiscoveredAt: timestamp('sitemaps_discovered_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
@@ -117,28 +125,120 @@ export type ProjectSettings = {
   autoSync?: boolean;
   syncFrequencyHours?: number;
   priorityEngines?: string[];
-  excludePatterns?: string[];
+  excludePatterns?: string[]; // Legacy: glob excludes, evaluated after urlRules
+  urlRules?: UrlRule[]; // Ordered, first match wins; unmatched URLs are included
+  normalization?: NormalizationSettings; // Duplicate detection; every option defaults to on except sorting
+  notifyRemovedUrls?: boolean; // Queue URL_DELETED to Google when a full scan no longer finds a URL
+  checkNotificationHistory?: boolean; // Ask Google for each URL's latest notification before publishing
+  googleCredentialSelection?: 'LEAST_USED' | 'ROUND_ROBIN'; // How the submitter picks from several Google credentials
+  gscProperty?: string; // Search Console property for URL inspection and sitemap submission, e.g. "sc-domain:example.com"; defaults to the domain property
+};
+
+export type NormalizationSettings = {
+  lowercaseHost?: boolean;
+  removeDefaultPort?: boolean;
+  removeFragment?: boolean;
+  removeTrailingSlash?: boolean;
+  stripTrackingParams?: boolean; // utm_*, gclid, fbclid, ... plus trackingParams
+  trackingParams?: string[];
+  sortQueryParams?: boolean;
+};
+
+export type UrlRule = {
+  action: 'INCLUDE' | 'EXCLUDE';
+  type: 'GLOB' | 'REGEX' | 'PREFIX' | 'QUERY_PARAM';
+  pattern: string; // QUERY_PARAM: "name" or "name=value"
 };
 
+export type DiscoveredSitemap = {
+  url: string;
+  source: 'ROBOTS_TXT' | 'WELL_KNOWN';
+  status: number | null; // HTTP status of the probe; null if unreachable
+  type?: 'INDEX' | 'URLSET' | 'RSS' | 'ATOM' | 'TEXT';
+  valid: boolean;
+  error?: string;
+  checkedAt: string;
+  firstSeenAt?: string; // First discovery run that found it
+};
+
+// ============ SITEMAP SOURCES ============
+// Independent root sitemaps of a project (e.g. CMS, shop feed, news); each
+// root's tree is scanned in the same job.
+export const sitemapSources = pgTable('sitemap_sources', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  url: text('url').notNull(),
+  label: varchar('label', { length: 100 }),
+  isEnabled: boolean('is_enabled').default(true).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  projectIdx: index('sitemap_source_project_idx').on(table.projectId),
+  urlIdx: uniqueIndex('sitemap_source_url_idx').on(table.projectId, table.url),
+}));
+
 // ============ SITEMAPS ============
 export const sitemaps = pgTable('sitemaps', {
   id: uuid('id').primaryKey().defaultRandom(),
   projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  sourceId: uuid('source_id').references(() => sitemapSources.id, { onDelete: 'set null' }), // Root this sitemap was reached from
   url: text('url').notNull(),
-  type: varchar('type', { length: 20 }).notNull(), // 'INDEX' | 'URLSET' | 'RSS'
+  type: varchar('type', { length: 20 }).notNull(), // 'INDEX' | 'URLSET' | 'RSS' | 'ATOM' | 'TEXT'
   parentId: uuid('parent_id'), // For nested sitemaps
   urlCount: integer('url_count').default(0).notNull(),
   etag: varchar('etag', { length: 255 }),
-  lastModified: timestamp('last_modified', { withTimezone: true }),
+  lastModified: timestamp('last_modified', { withTimezone: true }), // HTTP Last-Modified, sent back as If-Modified-Since
+  indexLastmod: timestamp('index_lastmod', { withTimezone: true }), // <lastmod> the parent index gave at the last fetch
   lastFetchedAt: timestamp('last_fetched_at', { withTimezone: true }),
+  lastChangedAt: timestamp('last_changed_at', { withTimezone: true }), // Last fetch that was re-parsed (not a 304)
   contentHash: varchar('content_hash', { length: 64 }), // SHA-256
   errorMessage: text('error_message'),
+  lintReport: jsonb('lint_report').$type<SitemapLintReport>(), // Protocol issues from the last fetch that read the body
+  // Search Console's view of the sitemap (Sitemaps API)
+  gscLastSubmittedAt: timestamp('gsc_last_submitted_at', { withTimezone: true }), // By anyone; null when GSC does not know the sitemap
+  gscLastDownloadedAt: timestamp('gsc_last_downloaded_at', { withTimezone: true }),
+  gscIsPending: boolean('gsc_is_pending'), // Submitted but not processed yet
+  gscWarnings: integer('gsc_warnings'),
+  gscErrors: integer('gsc_errors'),
+  gscSubmittedUrls: integer('gsc_submitted_urls'), // Summed over content types
+  gscIndexedUrls: integer('gsc_indexed_urls'),
+  gscCheckedAt: timestamp('gsc_checked_at', { withTimezone: true }),
+  gscErrorMessage: text('gsc_error_message'), // Why the last submission or status read failed
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
   projectIdx: index('sitemap_project_idx').on(table.projectId),
+  sourceIdx: index('sitemap_source_idx').on(table.sourceId),
   urlIdx: uniqueIndex('sitemap_url_idx').on(table.projectId, table.url),
 }));
 
+export type SitemapLintCode =
+  | 'TOO_MANY_URLS'
+  | 'TOO_LARGE'
+  | 'XML_ERROR'
+  | 'INVALID_ENCODING'
+  | 'NOT_ABSOLUTE_URL'
+  | 'HOST_MISMATCH'
+  | 'INVALID_LASTMOD'
+  | 'INVALID_PRIORITY'
+  | 'INVALID_CHANGEFREQ';
+
+export type SitemapLintIssue = {
+  code: SitemapLintCode;
+  severity: 'ERROR' | 'WARNING';
+  message: string;
+  count: number;
+  examples: string[]; // First few offending entries
+};
+
+export type SitemapLintReport = {
+  checkedAt: string;
+  type: string;
+  entryCount: number; // URLs, or child sitemaps for an index
+  uncompressedBytes: number;
+  errorCount: number;
+  warningCount: number;
+  issues: SitemapLintIssue[];
+};
+
 // ============ URLS ============
 export const urls = pgTable('urls', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -148,6 +248,8 @@ export const urls = pgTable('urls', {
   // URL data from sitemap
   loc: text('loc').notNull(),
   locHash: varchar('loc_hash', { length: 64 }).notNull(), // SHA-256 for fast lookups
+  normalizedHash: varchar('normalized_hash', { length: 64 }), // SHA-256 of the normalized loc
+  canonicalUrlId: uuid('canonical_url_id'), // Set on duplicates: the row that represents the group
   lastmod: timestamp('lastmod', { withTimezone: true }),
   changefreq: varchar('changefreq', { length: 20 }),
   priority: decimal('priority', { precision: 2, scale: 1 }),
@@ -157,28 +259,142 @@ export const urls = pgTable('urls', {
   googleSubmittedAt: timestamp('google_submitted_at', { withTimezone: true }),
   googleLastCheckedAt: timestamp('google_last_checked_at', { withTimezone: true }),
   
+  // Notification history (from urlNotifications.getMetadata), covering
+  // notifications sent by any tool
+  googleLatestUpdateAt: timestamp('google_latest_update_at', { withTimezone: true }),
+  googleLatestRemoveAt: timestamp('google_latest_remove_at', { withTimezone: true }),
+  googleNotificationsCheckedAt: timestamp('google_notifications_checked_at', { withTimezone: true }),
+  
   bingStatus: indexingStatusEnum('bing_status').default('DISCOVERED'),
   bingSubmittedAt: timestamp('bing_submitted_at', { withTimezone: true }),
   
   // Inspection data (from GSC API)
-  coverageState: varchar('coverage_state', { length: 50 }),
-  crawledAs: varchar('crawled_as', { length: 50 }),
-  robotsTxtState: varchar('robots_txt_state', { length: 50 }),
-  indexingState: varchar('indexing_state', { length: 50 }),
+  coverageState: varchar('coverage_state', { length: 100 }), // e.g. "Crawled - currently not indexed"
+  crawledAs: varchar('crawled_as', { length: 50 }), // DESKTOP | MOBILE
+  googleRobotsTxtState: varchar('google_robots_txt_state', { length: 50 }), // ALLOWED | DISALLOWED as Google saw it at its last crawl
+  robotsTxtState: varchar('robots_txt_state', { length: 50 }), // ALLOWED | DISALLOWED for Googlebot under the current robots.txt, set by scans
+  robotsRule: varchar('robots_rule', { length: 255 }), // robots.txt rule that decided robotsTxtState at the last scan
+  indexingState: varchar('indexing_state', { length: 50 }), // INDEXING_ALLOWED | BLOCKED_BY_META_TAG | ...
   lastCrawlTime: timestamp('last_crawl_time', { withTimezone: true }),
   
+  // Health check (our own fetch of the page)
+  httpStatus: integer('http_status'), // The URL's own response, e.g. 301; NULL when none arrived
+  responseTimeMs: integer('response_time_ms'), // Across all redirect hops
+  finalUrl: text('final_url'), // Set when the page redirects
+  finalStatus: integer('final_status'), // Status at finalUrl (equals httpStatus without redirects)
+  redirectChain: jsonb('redirect_chain').$type<RedirectChain>(), // NULL when the URL does not redirect
+  noindex: varchar('noindex', { length: 10 }), // META | HEADER when the page asks not to be indexed
+  googleStatusBeforeHealth: indexingStatusEnum('google_status_before_health'), // Restored once a failing page is healthy again
+  lastHealthCheckAt: timestamp('last_health_check_at', { withTimezone: true }),
+  
   // Metadata
   firstSeenAt: timestamp('first_seen_at', { withTimezone: true }).defaultNow().notNull(),
+  lastSeenAt: timestamp('last_seen_at', { withTimezone: true }).defaultNow().notNull(),
   removedAt: timestamp('removed_at', { withTimezone: true }), // Soft delete tracking
-  metadata: jsonb('metadata').default({}),
+  excludedAt: timestamp('excluded_at', { withTimezone: true }), // Matched an exclude rule at the last scan
+  excludedRule: varchar('excluded_rule', { length: 255 }),
+  metadata: jsonb('metadata').default({}).$type<UrlMetadata>(),
 }, (table) => ({
   projectIdx: index('url_project_idx').on(table.projectId),
   locHashIdx: uniqueIndex('url_loc_hash_idx').on(table.projectId, table.locHash),
+  normalizedHashIdx: index('url_normalized_hash_idx').on(table.projectId, table.normalizedHash),
   googleStatusIdx: index('url_google_status_idx').on(table.googleStatus),
   bingStatusIdx: index('url_bing_status_idx').on(table.bingStatus),
+  healthCheckIdx: index('url_health_check_idx').on(table.projectId, table.lastHealthCheckAt),
+  inspectionIdx: index('url_inspection_idx').on(table.projectId, table.googleLastCheckedAt),
+}));
+
+export type SitemapImage = {
+  loc: string;
+  title?: string;
+  caption?: string;
+};
+
+export type SitemapVideo = {
+  thumbnailLoc?: string;
+  title?: string;
+  contentLoc?: string;
+  playerLoc?: string;
+  duration?: number; // Seconds
+  publicationDate?: string;
+};
+
+export type SitemapNews = {
+  publicationName?: string;
+  language?: string;
+  title?: string;
+  publicationDate?: string;
+};
+
+// Sitemap extension data, replaced as a whole on every scan
+export type UrlExtensions = {
+  images?: SitemapImage[]; // Capped; imageCount has the true total
+  imageCount?: number;
+  videos?: SitemapVideo[];
+  news?: SitemapNews;
+  alternates?: { hreflang: string; href: string }[]; // xhtml:link rel="alternate"
+};
+
+// Canonical declared by the page, from the last health check
+export type UrlCanonical = {
+  url: string | null; // Absolute; the Link header wins when the two disagree
+  source: 'HTML' | 'HEADER' | 'BOTH' | null;
+  status: 'SELF' | 'MISMATCH' | 'MISSING' | 'CONFLICT'; // CONFLICT: several different canonicals
+  checkedAt: string;
+};
+
+export type RedirectHop = {
+  url: string;
+  status: number;
+  location: string | null; // Location header as sent, possibly relative
+};
+
+export type RedirectWarning =
+  | 'REDIRECT_LOOP'
+  | 'TOO_MANY_REDIRECTS'
+  | 'REDIRECT_CHAIN' // More than one hop; the sitemap should list the final URL
+  | 'TEMPORARY_REDIRECT' // 302, 303 or 307 somewhere in the chain
+  | 'MISSING_LOCATION';
+
+export type RedirectChain = {
+  hops: RedirectHop[];
+  warnings: RedirectWarning[];
+};
+
+export type UrlMetadata = UrlExtensions & { canonical?: UrlCanonical } & Record<string, unknown>;
+
+export const URL_EXTENSION_KEYS = ['images', 'imageCount', 'videos', 'news', 'alternates'] as const;
+
+// ============ URL REVISIONS ============
+// Every distinct lastmod/priority/changefreq a scan observed for a URL, so a
+// resubmission can be justified by an actual change.
+export const urlRevisions = pgTable('url_revisions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  urlId: uuid('url_id').references(() => urls.id, { onDelete: 'cascade' }).notNull(),
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  jobId: uuid('job_id').references(() => jobs.id, { onDelete: 'set null' }), // Scan that saw it
+  lastmod: timestamp('lastmod', { withTimezone: true }),
+  changefreq: varchar('changefreq', { length: 20 }),
+  priority: decimal('priority', { precision: 2, scale: 1 }),
+  observedAt: timestamp('observed_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  urlIdx: index('url_revision_url_idx').on(table.urlId, table.observedAt),
+  projectIdx: index('url_revision_project_idx').on(table.projectId, table.observedAt),
 }));
 
 // ============ SUBMISSIONS ============
+// Why a submitter did not send a URL, in the order the checks run
+export type SubmissionSkipReason =
+  | 'REMOVED'
+  | 'EXCLUDED'
+  | 'DUPLICATE'
+  | 'BLOCKED_ROBOTS'
+  | 'HTTP_ERROR'
+  | 'REDIRECT'
+  | 'NOINDEX'
+  | 'RECENTLY_SUBMITTED'
+  | 'UNCHANGED';
+
 export const submissions = pgTable('submissions', {
   id: uuid('id').primaryKey().defaultRandom(),
   urlId: uuid('url_id').references(() => urls.id, { onDelete: 'cascade' }).notNull(),
@@ -193,6 +409,7 @@ export const submissions = pgTable('submissions', {
   responseCode: integer('response_code'),
   responseBody: jsonb('response_body'),
   errorMessage: text('error_message'),
+  skipReason: varchar('skip_reason', { length: 30 }).$type<SubmissionSkipReason>(), // Set on CANCELLED rows the eligibility check rejected
   
   scheduledAt: timestamp('scheduled_at', { withTimezone: true }).defaultNow().notNull(),
   startedAt: timestamp('started_at', { withTimezone: true }),
@@ -229,11 +446,16 @@ export const jobs = pgTable('jobs', {
 }));
 
 // ============ CREDENTIALS (ENCRYPTED) ============
+// A project may hold several Google service accounts (one per GCP project,
+// each a verified owner); the submitter pools them.
 export const credentials = pgTable('credentials', {
   id: uuid('id').primaryKey().defaultRandom(),
   projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
   engine: searchEngineEnum('engine').notNull(),
   type: varchar('type', { length: 50 }).notNull(), // 'SERVICE_ACCOUNT' | 'API_KEY' | 'OAUTH'
+  label: varchar('label', { length: 100 }), // Defaults to the service account email in reports
+  accountEmail: varchar('account_email', { length: 255 }), // client_email of a service account, recorded on first use
+  dailyQuota: integer('daily_quota'), // Indexing API quota of the account's GCP project; NULL means Google's default
   
   // Encrypted with AES-256-GCM
   encryptedData: text('encrypted_data').notNull(),
@@ -245,19 +467,44 @@ export const credentials = pgTable('credentials', {
   lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
-  projectEngineIdx: uniqueIndex('credential_project_engine_idx').on(table.projectId, table.engine),
+  projectEngineIdx: index('credential_project_engine_idx').on(table.projectId, table.engine),
 }));
 
 // ============ QUOTA TRACKING ============
+// Google meters the Indexing API and the URL Inspection API separately
+export type QuotaApi = 'INDEXING' | 'URL_INSPECTION';
+
 export const quotaUsage = pgTable('quota_usage', {
   id: uuid('id').primaryKey().defaultRandom(),
   projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
   engine: searchEngineEnum('engine').notNull(),
-  date: timestamp('date', { mode: 'date' }).notNull(),
+  api: varchar('api', { length: 30 }).default('INDEXING').notNull().$type<QuotaApi>(), // Submissions use INDEXING
+  credentialId: uuid('credential_id').references(() => credentials.id, { onDelete: 'cascade' }), // Set for Google submissions, which are metered per service account
+  date: timestamp('date', { mode: 'date' }).notNull(), // Quota day in the engine's timezone (Pacific for Google)
   used: integer('used').default(0).notNull(),
   limit: integer('limit').notNull(),
 }, (table) => ({
-  uniqueIdx: uniqueIndex('quota_unique_idx').on(table.projectId, table.engine, table.date),
+  uniqueIdx: unique('quota_unique_idx')
+    .on(table.projectId, table.engine, table.api, table.credentialId, table.date)
+    .nullsNotDistinct(),
+}));
+
+// Google's allowance belongs to the service account's GCP project, so every
+// project using the same account draws on one row here. URL Inspection quota
+// is per property instead, so its rows are keyed by the property. Requests
+// are reserved before they are sent and settled afterwards; quotaUsage keeps
+// the per-project breakdown.
+export const serviceAccountQuota = pgTable('service_account_quota', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  quotaKey: varchar('quota_key', { length: 255 }).notNull(), // Service account email, or the Search Console property for URL_INSPECTION
+  api: varchar('api', { length: 30 }).notNull().$type<QuotaApi>(),
+  date: timestamp('date', { mode: 'date' }).notNull(), // Quota day in Pacific time
+  used: integer('used').default(0).notNull(),
+  reserved: integer('reserved').default(0).notNull(), // In flight: reserved but not yet settled
+  limit: integer('limit').notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  uniqueIdx: uniqueIndex('service_account_quota_unique_idx').on(table.quotaKey, table.api, table.date),
 }));
 
 // ============ AUDIT LOG ============
@@ -296,17 +543,30 @@ export const projectsRelations = relations(projects, ({ one, many }) => ({
     fields: [projects.organizationId],
     references: [organizations.id],
   }),
+  sitemapSources: many(sitemapSources),
   sitemaps: many(sitemaps),
   urls: many(urls),
   jobs: many(jobs),
   credentials: many(credentials),
 }));
 
+export const sitemapSourcesRelations = relations(sitemapSources, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [sitemapSources.projectId],
+    references: [projects.id],
+  }),
+  sitemaps: many(sitemaps),
+}));
+
 export const sitemapsRelations = relations(sitemaps, ({ one, many }) => ({
   project: one(projects, {
     fields: [sitemaps.projectId],
     references: [projects.id],
   }),
+  source: one(sitemapSources, {
+    fields: [sitemaps.sourceId],
+    references: [sitemapSources.id],
+  }),
   urls: many(urls),
 }));
 
@@ -320,4 +580,12 @@ export const urlsRelations = relations(urls, ({ one, many }) => ({
     references: [sitemaps.id],
   }),
   submissions: many(submissions),
+  revisions: many(urlRevisions),
+}));
+
+export const urlRevisionsRelations = relations(urlRevisions, ({ one }) => ({
+  url: one(urls, {
+    fields: [urlRevisions.urlId],
+    references: [urls.id],
+  }),
 }));